@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events'
+import type { AgentState } from '../src/types'
+
+interface TrackedAgent {
+  state: AgentState
+  tail: string // Recent output without escape sequences
+  lastInputTime: number
+  quietTimer: NodeJS.Timeout | null
+}
+
+interface StateMarker {
+  pattern: RegExp
+  state: AgentState
+}
+
+// Screen text that identifies what the agent is doing. The marker printed last wins,
+// since earlier ones are still in the tail after the screen was redrawn.
+const STATE_MARKERS: StateMarker[] = [
+  // Permission and confirmation prompts
+  { pattern: /Do you want to|Would you like to|❯\s*1\.\s*Yes|\(y\/n\)|\[y\/n\]|Press Enter to continue/gi, state: 'waiting-for-input' },
+  // Spinner line while the agent is thinking or running tools
+  { pattern: /esc to interrupt|[✻✽✶✳✢·]\s+\w+…/gi, state: 'working' },
+  // Empty input box
+  { pattern: /\? for shortcuts|[│|]\s*>\s/g, state: 'idle' }
+]
+
+const TAIL_LENGTH = 2000
+// How long the output has to stay quiet before the agent counts as idle
+const QUIET_DELAY = 1500
+// Output this soon after a keystroke is most likely the echo of what was typed
+const ECHO_WINDOW = 100
+const ECHO_MAX_LENGTH = 256
+
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-_]/g
+
+function findLastMarkerState(text: string): AgentState | null {
+  let best: { index: number; state: AgentState } | null = null
+  for (const { pattern, state } of STATE_MARKERS) {
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      if (!best || match.index >= best.index) {
+        best = { index: match.index, state }
+      }
+    }
+  }
+  return best?.state ?? null
+}
+
+// Tracks the state of agent terminals from their output. Emits 'state-changed' (id, state).
+export class AgentStateDetector extends EventEmitter {
+  private agents: Map<string, TrackedAgent> = new Map()
+
+  track(id: string): void {
+    this.untrack(id)
+    this.agents.set(id, { state: 'working', tail: '', lastInputTime: 0, quietTimer: null })
+    this.emit('state-changed', id, 'working')
+    this.scheduleQuietCheck(id)
+  }
+
+  untrack(id: string): void {
+    const agent = this.agents.get(id)
+    if (agent?.quietTimer) {
+      clearTimeout(agent.quietTimer)
+    }
+    this.agents.delete(id)
+  }
+
+  getState(id: string): AgentState | null {
+    return this.agents.get(id)?.state ?? null
+  }
+
+  handleInput(id: string): void {
+    const agent = this.agents.get(id)
+    if (agent) {
+      agent.lastInputTime = Date.now()
+    }
+  }
+
+  handleOutput(id: string, data: string): void {
+    const agent = this.agents.get(id)
+    if (!agent || agent.state === 'exited') return
+
+    agent.tail = (agent.tail + data.replace(ANSI_PATTERN, '')).slice(-TAIL_LENGTH)
+    const isEcho = Date.now() - agent.lastInputTime < ECHO_WINDOW && data.length < ECHO_MAX_LENGTH
+    const markerState = findLastMarkerState(agent.tail)
+
+    if (markerState === 'waiting-for-input' || markerState === 'working') {
+      this.setState(id, markerState)
+    } else if (!isEcho) {
+      this.setState(id, 'working')
+    }
+    this.scheduleQuietCheck(id)
+  }
+
+  handleExit(id: string): void {
+    const agent = this.agents.get(id)
+    if (!agent) return
+    if (agent.quietTimer) {
+      clearTimeout(agent.quietTimer)
+      agent.quietTimer = null
+    }
+    this.setState(id, 'exited')
+  }
+
+  private scheduleQuietCheck(id: string): void {
+    const agent = this.agents.get(id)
+    if (!agent) return
+    if (agent.quietTimer) {
+      clearTimeout(agent.quietTimer)
+    }
+    agent.quietTimer = setTimeout(() => {
+      agent.quietTimer = null
+      const markerState = findLastMarkerState(agent.tail)
+      if (markerState === 'working') {
+        // Still showing the spinner, e.g. waiting on a slow tool
+        this.scheduleQuietCheck(id)
+      } else {
+        this.setState(id, markerState === 'waiting-for-input' ? 'waiting-for-input' : 'idle')
+      }
+    }, QUIET_DELAY)
+  }
+
+  private setState(id: string, state: AgentState): void {
+    const agent = this.agents.get(id)
+    if (!agent || agent.state === state) return
+    agent.state = state
+    this.emit('state-changed', id, state)
+  }
+
+  dispose(): void {
+    for (const id of Array.from(this.agents.keys())) {
+      this.untrack(id)
+    }
+  }
+}
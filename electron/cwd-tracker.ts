@@ -0,0 +1,33 @@
+import fs from 'fs'
+
+// OSC 7 reports the shell's directory as `ESC ] 7 ; file://host/path` terminated by BEL or ST
+const OSC7_PATTERN = /\x1b\]7;file:\/\/[^/\x07\x1b]*([^\x07\x1b]*)(?:\x07|\x1b\\)/g
+
+// Returns the last directory reported through OSC 7 in a chunk of output
+export function parseOsc7Cwd(data: string): string | null {
+  let cwd: string | null = null
+  let match: RegExpExecArray | null
+  OSC7_PATTERN.lastIndex = 0
+  while ((match = OSC7_PATTERN.exec(data)) !== null) {
+    try {
+      cwd = decodeURIComponent(match[1])
+    } catch {
+      cwd = match[1]
+    }
+  }
+  // Windows paths arrive as /C:/Users/...
+  if (cwd && process.platform === 'win32' && /^\/[a-zA-Z]:/.test(cwd)) {
+    cwd = cwd.slice(1).replace(/\//g, '\\')
+  }
+  return cwd || null
+}
+
+// Reads the live working directory of a process, only available on Linux
+export async function readProcessCwd(pid: number): Promise<string | null> {
+  if (process.platform !== 'linux') return null
+  try {
+    return await fs.promises.readlink(`/proc/${pid}/cwd`)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+// KEY=value lines, with optional 'export', quotes and comments
+export function parseDotEnv(content: string): Record<string, string> {
+  const env: Record<string, string> = {}
+  const pattern = /^[ \t]*(?:export[ \t]+)?([\w.-]+)[ \t]*=[ \t]*("(?:\\.|[^"\\])*"|'[^']*'|[^\r\n]*?)[ \t]*(?:[ \t]#.*)?\r?$/gm
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content)) !== null) {
+    const [, key, raw] = match
+    if (raw.startsWith('"')) {
+      env[key] = raw.slice(1, -1).replace(/\\(.)/g, (_, c: string) => c === 'n' ? '\n' : c === 't' ? '\t' : c)
+    } else if (raw.startsWith("'")) {
+      env[key] = raw.slice(1, -1)
+    } else {
+      env[key] = raw
+    }
+  }
+  return env
+}
+
+// Merge .env files relative to the workspace folder, later files win
+export function loadEnvFiles(folderPath: string, files: string[]): { env: Record<string, string>; errors: string[] } {
+  const env: Record<string, string> = {}
+  const errors: string[] = []
+  for (const file of files) {
+    try {
+      const content = fs.readFileSync(path.resolve(folderPath, file), 'utf-8')
+      Object.assign(env, parseDotEnv(content))
+    } catch (e) {
+      errors.push(`${file}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+  return { env, errors }
+}
+
+// UTF-8 locale for tools that need it, without replacing a locale the user chose.
+// Pass the fully merged environment, a locale set at any layer counts as chosen.
+export function withUtf8Defaults(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const defaults: Record<string, string> = {
+    PYTHONIOENCODING: 'utf-8',
+    PYTHONUTF8: '1'
+  }
+  if (!env.LANG && !env.LC_ALL && !env.LC_CTYPE) {
+    defaults.LANG = 'en_US.UTF-8'
+    defaults.LC_ALL = 'en_US.UTF-8'
+  }
+  return { ...defaults, ...env }
+}
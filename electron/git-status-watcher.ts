@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events'
+import * as fs from 'fs'
+import * as path from 'path'
+import { getGitStatus, runGit } from './git'
+import type { GitStatus } from '../src/types'
+
+// Changes are coalesced, an agent writing many files triggers one status run
+const REFRESH_DELAY = 300
+// Without recursive fs.watch (Linux before Node 20) changes in subfolders are only found by polling
+const POLL_INTERVAL = 5000
+// Paths that change often without affecting the status, in the folder and in a git folder
+const IGNORED_FOLDER_PATH = /(^|[\\/])(node_modules|\.git[\\/]objects|\.git[\\/]logs)([\\/]|$)|\.lock$/
+const IGNORED_GIT_PATH = /^(objects|logs)([\\/]|$)|\.lock$/
+
+interface WatchedFolder {
+  compareRef?: string
+  status: GitStatus | null
+  watchers: fs.FSWatcher[]
+  pollTimer: NodeJS.Timeout | null
+  refreshTimer: NodeJS.Timeout | null
+  refreshing: boolean
+  refreshPending: boolean // Something changed while the status was being read
+}
+
+// Keeps the git status of workspace folders current. Emits 'status-changed' (folderPath, status).
+export class GitStatusWatcher extends EventEmitter {
+  private folders: Map<string, WatchedFolder> = new Map()
+
+  // Start watching, or change what ahead/behind count against, and return the current status
+  async watch(folderPath: string, compareRef?: string): Promise<GitStatus | null> {
+    const existing = this.folders.get(folderPath)
+    if (existing) {
+      existing.compareRef = compareRef
+      existing.status = await getGitStatus(folderPath, compareRef)
+      return existing.status
+    }
+
+    const folder: WatchedFolder = {
+      compareRef,
+      status: null,
+      watchers: [],
+      pollTimer: null,
+      refreshTimer: null,
+      refreshing: false,
+      refreshPending: false
+    }
+    this.folders.set(folderPath, folder)
+    folder.status = await getGitStatus(folderPath, compareRef)
+    if (this.folders.get(folderPath) === folder) {
+      await this.startWatching(folderPath, folder)
+    }
+    return folder.status
+  }
+
+  unwatch(folderPath: string): void {
+    const folder = this.folders.get(folderPath)
+    if (!folder) return
+    folder.watchers.forEach(watcher => watcher.close())
+    if (folder.pollTimer) clearInterval(folder.pollTimer)
+    if (folder.refreshTimer) clearTimeout(folder.refreshTimer)
+    this.folders.delete(folderPath)
+  }
+
+  // Read the status again now, emits only when it changed
+  async refresh(folderPath: string): Promise<void> {
+    const folder = this.folders.get(folderPath)
+    if (!folder) return
+    if (folder.refreshing) {
+      folder.refreshPending = true
+      return
+    }
+    folder.refreshing = true
+    const status = await getGitStatus(folderPath, folder.compareRef)
+    folder.refreshing = false
+    if (this.folders.get(folderPath) !== folder) return
+
+    if (JSON.stringify(status) !== JSON.stringify(folder.status)) {
+      folder.status = status
+      this.emit('status-changed', folderPath, status)
+    }
+    if (folder.refreshPending) {
+      folder.refreshPending = false
+      this.scheduleRefresh(folderPath)
+    }
+  }
+
+  dispose(): void {
+    Array.from(this.folders.keys()).forEach(folderPath => this.unwatch(folderPath))
+  }
+
+  private async startWatching(folderPath: string, folder: WatchedFolder): Promise<void> {
+    let recursive = this.watchPath(folderPath, folderPath, IGNORED_FOLDER_PATH, folder)
+
+    // Commits in a linked worktree only touch the main repository's git folder
+    const commonDir = await runGit(folderPath, ['rev-parse', '--git-common-dir'])
+      .then(output => path.resolve(folderPath, output.trim()))
+      .catch(() => null)
+    if (this.folders.get(folderPath) !== folder) return
+    if (commonDir && path.relative(folderPath, commonDir).startsWith('..')) {
+      recursive = this.watchPath(folderPath, commonDir, IGNORED_GIT_PATH, folder) && recursive
+    }
+
+    if (!recursive) {
+      folder.pollTimer = setInterval(() => this.refresh(folderPath), POLL_INTERVAL)
+    }
+  }
+
+  // False when only the top level of the folder could be watched
+  private watchPath(folderPath: string, watchedPath: string, ignored: RegExp, folder: WatchedFolder): boolean {
+    const listener = (_event: string, filename: string | Buffer | null) => {
+      if (filename && ignored.test(filename.toString())) return
+      this.scheduleRefresh(folderPath)
+    }
+    const add = (watcher: fs.FSWatcher) => {
+      // Raised when the folder is deleted, the next status then reports it
+      watcher.on('error', () => this.scheduleRefresh(folderPath))
+      folder.watchers.push(watcher)
+    }
+    try {
+      add(fs.watch(watchedPath, { recursive: true }, listener))
+      return true
+    } catch {
+      try {
+        add(fs.watch(watchedPath, listener))
+      } catch (e) {
+        console.warn(`Cannot watch ${watchedPath}:`, e)
+      }
+      return false
+    }
+  }
+
+  private scheduleRefresh(folderPath: string): void {
+    const folder = this.folders.get(folderPath)
+    if (!folder) return
+    if (folder.refreshTimer) clearTimeout(folder.refreshTimer)
+    folder.refreshTimer = setTimeout(() => {
+      folder.refreshTimer = null
+      this.refresh(folderPath)
+    }, REFRESH_DELAY)
+  }
+}
@@ -0,0 +1,148 @@
+import { execFile } from 'child_process'
+import * as path from 'path'
+import type { GitStatus, GitFileChange } from '../src/types'
+
+// Output of a git command, rejects with git's own message when it fails.
+// Some commands use exit code 1 for a result rather than an error, like diff --no-index.
+export function runGit(cwd: string, args: string[], okExitCodes: number[] = [0]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024, windowsHide: true }, (error, stdout, stderr) => {
+      if (error && !(typeof error.code === 'number' && okExitCodes.includes(error.code))) {
+        reject(new Error(stderr.trim() || error.message))
+      } else {
+        resolve(stdout)
+      }
+    })
+  })
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e)
+}
+
+// Worktrees live next to the repository, in <repo>.worktrees/<branch>
+function getWorktreePath(repoRoot: string, branch: string): string {
+  return path.join(path.dirname(repoRoot), `${path.basename(repoRoot)}.worktrees`, branch.replace(/[\\/:*?"<>|]+/g, '-'))
+}
+
+// New branch checked out in its own worktree, starting at the current HEAD of folderPath
+export async function createWorktree(folderPath: string, branch: string): Promise<{ path?: string; baseBranch?: string; error?: string }> {
+  try {
+    await runGit(folderPath, ['check-ref-format', '--branch', branch])
+    const repoRoot = (await runGit(folderPath, ['rev-parse', '--show-toplevel'])).trim()
+    const baseBranch = (await runGit(folderPath, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim()
+    // Nothing to compare against or merge back into
+    if (baseBranch === 'HEAD') {
+      return { error: `Check out a branch in ${path.basename(folderPath)} before creating an agent worktree` }
+    }
+    const worktreePath = getWorktreePath(repoRoot, branch)
+    await runGit(folderPath, ['worktree', 'add', '-b', branch, worktreePath, 'HEAD'])
+    return { path: worktreePath, baseBranch }
+  } catch (e) {
+    return { error: errorMessage(e) }
+  }
+}
+
+// "## main...origin/main [ahead 1, behind 2]", "## HEAD (no branch)" or "## No commits yet on main"
+function parseBranchHeader(header: string): { branch: string | null; upstream: string | null; ahead: number; behind: number } {
+  const match = /^## (?:No commits yet on |Initial commit on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/.exec(header)
+  if (!match || match[1] === 'HEAD (no branch)') {
+    return { branch: null, upstream: null, ahead: 0, behind: 0 }
+  }
+  const counts = match[3] ?? ''
+  return {
+    branch: match[1],
+    upstream: match[2] ?? null,
+    ahead: Number(/ahead (\d+)/.exec(counts)?.[1] ?? 0),
+    behind: Number(/behind (\d+)/.exec(counts)?.[1] ?? 0)
+  }
+}
+
+// Branch, changed files and ahead/behind counts, against compareRef when given and the upstream otherwise.
+// Null when the folder is not a git checkout.
+export async function getGitStatus(folderPath: string, compareRef?: string): Promise<GitStatus | null> {
+  let output: string
+  try {
+    // Don't refresh the index, the write would wake the status watcher again
+    output = await runGit(folderPath, ['--no-optional-locks', 'status', '--porcelain=v1', '--branch', '-z', '--untracked-files=all'])
+  } catch {
+    return null
+  }
+
+  const entries = output.split('\0')
+  const header = parseBranchHeader(entries[0])
+  const files: GitFileChange[] = []
+  for (let i = 1; i < entries.length; i++) {
+    const entry = entries[i]
+    if (entry.length < 4) continue
+    const file: GitFileChange = { path: entry.slice(3), index: entry[0], worktree: entry[1] }
+    // Renames and copies are followed by the original path
+    if (file.index === 'R' || file.index === 'C') {
+      file.origPath = entries[++i]
+    }
+    files.push(file)
+  }
+
+  let { ahead, behind } = header
+  if (compareRef) {
+    try {
+      const counts = await runGit(folderPath, ['rev-list', '--left-right', '--count', `${compareRef}...HEAD`])
+      const [behindCount, aheadCount] = counts.trim().split(/\s+/).map(Number)
+      ahead = aheadCount
+      behind = behindCount
+    } catch {
+      ahead = behind = 0
+    }
+  }
+
+  return { branch: header.branch, compareRef: compareRef ?? header.upstream, ahead, behind, files }
+}
+
+// Changes of one file against HEAD, staged and unstaged together
+export async function getFileDiff(folderPath: string, file: GitFileChange): Promise<string> {
+  if (file.index === '?') {
+    return runGit(folderPath, ['diff', '--no-color', '--no-index', '--', '/dev/null', file.path], [0, 1])
+  }
+  try {
+    return await runGit(folderPath, ['diff', '--no-color', 'HEAD', '--', file.path])
+  } catch {
+    // No commits yet, everything is staged
+    return runGit(folderPath, ['diff', '--no-color', '--cached', '--', file.path])
+  }
+}
+
+// Merge the worktree's branch into its base branch, which must be checked out in the parent
+export async function mergeWorktree(parentPath: string, branch: string, baseBranch: string): Promise<{ error?: string }> {
+  try {
+    const current = (await runGit(parentPath, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim()
+    if (current !== baseBranch) {
+      return { error: `The parent checkout is on ${current === 'HEAD' ? 'a detached HEAD' : current}, switch it to ${baseBranch} to merge` }
+    }
+    // A merge of the user's own that is still in progress must not be aborted below
+    if ((await runGit(parentPath, ['rev-parse', '-q', '--verify', 'MERGE_HEAD'], [0, 1])).trim()) {
+      return { error: 'The parent checkout is in the middle of a merge, finish or abort it first' }
+    }
+  } catch (e) {
+    return { error: errorMessage(e) }
+  }
+  try {
+    await runGit(parentPath, ['merge', '--no-ff', '--no-edit', branch])
+    return {}
+  } catch (e) {
+    // Leave the parent as it was rather than half merged
+    await runGit(parentPath, ['merge', '--abort']).catch(() => undefined)
+    return { error: errorMessage(e) }
+  }
+}
+
+// Delete the worktree folder and its branch. Without force uncommitted changes
+// fail the removal and a branch with unmerged commits is kept.
+export async function removeWorktree(parentPath: string, worktreePath: string, branch: string, force: boolean): Promise<{ error?: string }> {
+  try {
+    await runGit(parentPath, ['worktree', 'remove', ...(force ? ['--force'] : []), worktreePath])
+    await runGit(parentPath, ['branch', force ? '-D' : '-d', branch]).catch(() => undefined)
+    return {}
+  } catch (e) {
+    return { error: errorMessage(e) }
+  }
+}
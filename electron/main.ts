@@ -1,13 +1,90 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, shell, Notification } from 'electron'
 import path from 'path'
 import { PtyManager } from './pty-manager'
+import type { RendererSend } from './pty-manager'
+import { SessionClient, startSessionDaemon } from './session-client'
+import { OutputFlow } from './output-flow'
+import { getSessionSocketPath } from './session-protocol'
+import { SessionRecorder } from './session-recorder'
+import { AgentStateDetector } from './agent-state-detector'
+import { detectShellProfiles } from './shell-profiles'
+import { loadEnvFiles } from './environment'
+import { loadProjectConfig } from './project-config'
+import { createWorktree, getFileDiff, getGitStatus, mergeWorktree, removeWorktree } from './git'
+import { GitStatusWatcher } from './git-status-watcher'
+import type { AgentState, RestartPtyOptions, RestartPolicy, GitStatus, GitFileChange } from '../src/types'
 
 let mainWindow: BrowserWindow | null = null
-let ptyManager: PtyManager | null = null
+let ptyManager: PtyManager | SessionClient | null = null
+let outputFlow: OutputFlow | null = null
+// Run terminals in the session daemon, from the saved settings
+let persistentSessions = false
+const sessionRecorder = new SessionRecorder()
+const agentStateDetector = new AgentStateDetector()
+const gitStatusWatcher = new GitStatusWatcher()
+let readyToClose = false
+let closeTimeout: NodeJS.Timeout | null = null
+// Shown notifications, referenced so their click handlers aren't garbage collected
+const activeNotifications: Set<Notification> = new Set()
 
 const VITE_DEV_SERVER_URL = process.env['VITE_DEV_SERVER_URL']
 
-function createWindow() {
+async function loadPersistentSessionsSetting(): Promise<boolean> {
+  const fs = await import('fs/promises')
+  try {
+    const data = await fs.readFile(path.join(app.getPath('userData'), 'settings.json'), 'utf-8')
+    return JSON.parse(data).persistentSessions === true
+  } catch {
+    return false
+  }
+}
+
+// Attach to a running session daemon, start one when enabled, or host the terminals in-process
+async function createTerminalHost(send: RendererSend): Promise<PtyManager | SessionClient> {
+  persistentSessions = await loadPersistentSessionsSetting()
+  const socketPath = getSessionSocketPath(app.getPath('userData'))
+  // Terminals left running by an earlier run are reattached even if the setting was turned off since
+  let client = await SessionClient.connect(socketPath, send)
+  if (!client && persistentSessions) {
+    startSessionDaemon(socketPath)
+    client = await SessionClient.connect(socketPath, send, 30)
+    if (!client) {
+      console.error('Session daemon did not start, running terminals in the app')
+    }
+  }
+  return client ?? new PtyManager(send)
+}
+
+// Route a terminal host's events to the renderer, the recorder and agent tracking
+function setTerminalHost(host: PtyManager | SessionClient, flow: OutputFlow): void {
+  ptyManager = host
+  host.on('output', (id: string, data: string) => flow.push(id, data))
+  host.on('closed', (id: string) => flow.remove(id))
+  host.on('output', (id: string, data: string) => sessionRecorder.recordOutput(id, data))
+  host.on('input', (id: string, data: string) => sessionRecorder.recordInput(id, data))
+  host.on('resize', (id: string, cols: number, rows: number) => sessionRecorder.recordResize(id, cols, rows))
+  host.on('closed', (id: string) => sessionRecorder.stop(id))
+
+  // Agent state tracking for claude-code terminals
+  host.on('spawn', (id: string, isAgent: boolean) => {
+    if (isAgent) {
+      agentStateDetector.track(id)
+    } else {
+      // A shell took over, e.g. after the agent exited or failed to launch on restart
+      agentStateDetector.handleExit(id)
+    }
+  })
+  host.on('output', (id: string, data: string) => agentStateDetector.handleOutput(id, data))
+  host.on('input', (id: string) => agentStateDetector.handleInput(id))
+  host.on('exit', (id: string, _exitCode: number, isAgent: boolean) => {
+    if (isAgent) {
+      agentStateDetector.handleExit(id)
+    }
+  })
+  host.on('closed', (id: string) => agentStateDetector.untrack(id))
+}
+
+async function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1400,
     height: 900,
@@ -24,7 +101,33 @@ function createWindow() {
     icon: path.join(__dirname, '../assets/icon.ico')
   })
 
-  ptyManager = new PtyManager(mainWindow)
+  const win = mainWindow
+  const flow = new OutputFlow((channel, ...args) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send(channel, ...args)
+    }
+  }, {
+    pause: id => ptyManager?.pause(id),
+    resume: id => ptyManager?.resume(id)
+  })
+  outputFlow = flow
+  win.webContents.on('did-start-loading', () => {
+    flow.reset()
+    // The reloaded renderer watches its workspaces again
+    gitStatusWatcher.dispose()
+  })
+
+  const host = await createTerminalHost(flow.send)
+  setTerminalHost(host, flow)
+  if (host instanceof SessionClient) {
+    // Keep the app usable when the daemon dies, new terminals run in-process
+    host.on('disconnected', () => {
+      if (ptyManager !== host) return
+      console.error('Session daemon disconnected, running terminals in the app')
+      setTerminalHost(new PtyManager(flow.send), flow)
+    })
+    await host.attach()
+  }
 
   if (VITE_DEV_SERVER_URL) {
     mainWindow.loadURL(VITE_DEV_SERVER_URL)
@@ -33,13 +136,58 @@ function createWindow() {
     mainWindow.loadFile(path.join(__dirname, '../dist/index.html'))
   }
 
+  // Give the renderer a chance to persist terminals and scrollback before closing
+  readyToClose = false
+  mainWindow.on('close', (event) => {
+    if (readyToClose) return
+    event.preventDefault()
+    if (closeTimeout) return
+    mainWindow?.webContents.send('app:before-close')
+    // Don't hang if the renderer never answers
+    closeTimeout = setTimeout(closeMainWindow, 3000)
+  })
+
+  mainWindow.on('focus', () => {
+    mainWindow?.flashFrame(false)
+  })
+
   mainWindow.on('closed', () => {
     mainWindow = null
-    ptyManager?.dispose()
+    if (ptyManager instanceof SessionClient && !persistentSessions) {
+      ptyManager.shutdown()
+    } else {
+      ptyManager?.dispose()
+    }
     ptyManager = null
+    outputFlow?.dispose()
+    outputFlow = null
+    sessionRecorder.dispose()
+    agentStateDetector.dispose()
+    gitStatusWatcher.dispose()
   })
 }
 
+agentStateDetector.on('state-changed', (id: string, state: AgentState) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('pty:agent-state-changed', id, state)
+  }
+})
+
+gitStatusWatcher.on('status-changed', (folderPath: string, status: GitStatus | null) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('git:status-changed', folderPath, status)
+  }
+})
+
+function closeMainWindow() {
+  if (closeTimeout) {
+    clearTimeout(closeTimeout)
+    closeTimeout = null
+  }
+  readyToClose = true
+  mainWindow?.close()
+}
+
 app.whenReady().then(createWindow)
 
 app.on('window-all-closed', () => {
@@ -63,6 +211,11 @@ ipcMain.handle('pty:write', async (_event, id: string, data: string) => {
   ptyManager?.write(id, data)
 })
 
+// The renderer parsed this much output of the terminal
+ipcMain.handle('pty:ack-output', async (_event, id: string, chars: number) => {
+  outputFlow?.ack(id, chars)
+})
+
 ipcMain.handle('pty:resize', async (_event, id: string, cols: number, rows: number) => {
   ptyManager?.resize(id, cols, rows)
 })
@@ -71,14 +224,31 @@ ipcMain.handle('pty:kill', async (_event, id: string) => {
   return ptyManager?.kill(id)
 })
 
-ipcMain.handle('pty:restart', async (_event, id: string, cwd: string, shell?: string) => {
-  return ptyManager?.restart(id, cwd, shell)
+ipcMain.handle('pty:restart', async (_event, id: string, options: RestartPtyOptions) => {
+  return ptyManager?.restart(id, options)
+})
+
+// Interrupt without the restart policy bringing the process back
+ipcMain.handle('pty:stop', async (_event, id: string) => {
+  ptyManager?.stop(id)
+})
+
+ipcMain.handle('pty:set-restart-policy', async (_event, id: string, policy: RestartPolicy) => {
+  ptyManager?.setRestartPolicy(id, policy)
+})
+
+ipcMain.handle('pty:get-exit-status', async (_event, id: string) => {
+  return ptyManager?.getExitStatus(id) ?? null
 })
 
 ipcMain.handle('pty:get-cwd', async (_event, id: string) => {
   return ptyManager?.getCwd(id)
 })
 
+ipcMain.handle('pty:get-agent-state', async (_event, id: string) => {
+  return agentStateDetector.getState(id)
+})
+
 ipcMain.handle('dialog:select-folder', async () => {
   const result = await dialog.showOpenDialog(mainWindow!, {
     properties: ['openDirectory']
@@ -86,6 +256,29 @@ ipcMain.handle('dialog:select-folder', async () => {
   return result.canceled ? null : result.filePaths[0]
 })
 
+ipcMain.handle('dialog:save-file', async (_event, defaultName: string, content: string, filters: Electron.FileFilter[]) => {
+  const fs = await import('fs/promises')
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: path.join(app.getPath('documents'), defaultName),
+    filters
+  })
+  if (result.canceled || !result.filePath) return null
+  await fs.writeFile(result.filePath, content, 'utf-8')
+  return result.filePath
+})
+
+ipcMain.handle('dialog:open-file', async (_event, filters: Electron.FileFilter[]) => {
+  const fs = await import('fs/promises')
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openFile'],
+    filters
+  })
+  if (result.canceled || result.filePaths.length === 0) return null
+  const filePath = result.filePaths[0]
+  const content = await fs.readFile(filePath, 'utf-8')
+  return { filePath, content }
+})
+
 ipcMain.handle('workspace:save', async (_event, data: string) => {
   const fs = await import('fs/promises')
   const configPath = path.join(app.getPath('userData'), 'workspaces.json')
@@ -93,6 +286,48 @@ ipcMain.handle('workspace:save', async (_event, data: string) => {
   return true
 })
 
+// Preview of the variables a workspace's .env files provide
+ipcMain.handle('workspace:load-env-files', async (_event, folderPath: string, files: string[]) => {
+  return loadEnvFiles(folderPath, files)
+})
+
+ipcMain.handle('workspace:load-project-config', async (_event, folderPath: string) => {
+  return loadProjectConfig(folderPath)
+})
+
+ipcMain.handle('git:create-worktree', async (_event, folderPath: string, branch: string) => {
+  return createWorktree(folderPath, branch)
+})
+
+ipcMain.handle('git:watch-status', async (_event, folderPath: string, compareRef?: string) => {
+  return gitStatusWatcher.watch(folderPath, compareRef)
+})
+
+ipcMain.handle('git:unwatch-status', async (_event, folderPath: string) => {
+  gitStatusWatcher.unwatch(folderPath)
+})
+
+ipcMain.handle('git:refresh-status', async (_event, folderPath: string) => {
+  return gitStatusWatcher.refresh(folderPath)
+})
+
+// One-off read, for checks that can't wait for the watcher
+ipcMain.handle('git:get-status', async (_event, folderPath: string) => {
+  return getGitStatus(folderPath)
+})
+
+ipcMain.handle('git:get-diff', async (_event, folderPath: string, file: GitFileChange) => {
+  return getFileDiff(folderPath, file)
+})
+
+ipcMain.handle('git:merge-worktree', async (_event, parentPath: string, branch: string, baseBranch: string) => {
+  return mergeWorktree(parentPath, branch, baseBranch)
+})
+
+ipcMain.handle('git:remove-worktree', async (_event, parentPath: string, worktreePath: string, branch: string, force: boolean) => {
+  return removeWorktree(parentPath, worktreePath, branch, force)
+})
+
 ipcMain.handle('workspace:load', async () => {
   const fs = await import('fs/promises')
   const configPath = path.join(app.getPath('userData'), 'workspaces.json')
@@ -104,11 +339,100 @@ ipcMain.handle('workspace:load', async () => {
   }
 })
 
+ipcMain.handle('app:close-ready', async () => {
+  closeMainWindow()
+})
+
+// Notification handlers
+ipcMain.handle('notification:show', async (_event, options: { terminalId: string; title: string; body: string; flashFrame: boolean }) => {
+  if (options.flashFrame && mainWindow && !mainWindow.isFocused()) {
+    mainWindow.flashFrame(true)
+  }
+  if (!Notification.isSupported()) return false
+
+  const notification = new Notification({ title: options.title, body: options.body })
+  activeNotifications.add(notification)
+  notification.on('click', () => {
+    activeNotifications.delete(notification)
+    if (mainWindow) {
+      if (mainWindow.isMinimized()) mainWindow.restore()
+      mainWindow.show()
+      mainWindow.focus()
+      mainWindow.webContents.send('notification:clicked', options.terminalId)
+    }
+  })
+  notification.on('close', () => activeNotifications.delete(notification))
+  notification.show()
+  return true
+})
+
+ipcMain.handle('notification:set-badge-count', async (_event, count: number) => {
+  // Supported on macOS and Linux (Unity), ignored elsewhere
+  return app.setBadgeCount(count)
+})
+
+// Scrollback handlers
+function getScrollbackPath(id: string): string {
+  return path.join(app.getPath('userData'), 'scrollback', `${path.basename(id)}.log`)
+}
+
+ipcMain.handle('scrollback:save', async (_event, id: string, data: string) => {
+  const fs = await import('fs/promises')
+  const scrollbackPath = getScrollbackPath(id)
+  await fs.mkdir(path.dirname(scrollbackPath), { recursive: true })
+  await fs.writeFile(scrollbackPath, data, 'utf-8')
+  return true
+})
+
+ipcMain.handle('scrollback:load', async (_event, id: string) => {
+  const fs = await import('fs/promises')
+  try {
+    return await fs.readFile(getScrollbackPath(id), 'utf-8')
+  } catch {
+    return null
+  }
+})
+
+ipcMain.handle('scrollback:delete', async (_event, id: string) => {
+  const fs = await import('fs/promises')
+  await fs.rm(getScrollbackPath(id), { force: true })
+  return true
+})
+
+// Recording handlers
+ipcMain.handle('recording:start', async (_event, id: string, options: { title: string; recordInput: boolean }) => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: path.join(app.getPath('documents'), `${options.title.replace(/[\\/:*?"<>|]/g, '_')}-${stamp}.cast`),
+    filters: [{ name: 'Asciicast', extensions: ['cast'] }]
+  })
+  if (result.canceled || !result.filePath || !ptyManager) return null
+  const { cols, rows } = ptyManager.getSize(id)
+  sessionRecorder.start(id, result.filePath, { cols, rows, title: options.title, recordInput: options.recordInput })
+  return result.filePath
+})
+
+ipcMain.handle('recording:stop', async (_event, id: string) => {
+  return sessionRecorder.stop(id)
+})
+
+ipcMain.handle('recording:open', async () => {
+  const fs = await import('fs/promises')
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openFile'],
+    filters: [{ name: 'Asciicast', extensions: ['cast'] }]
+  })
+  if (result.canceled || result.filePaths.length === 0) return null
+  const filePath = result.filePaths[0]
+  return { filePath, content: await fs.readFile(filePath, 'utf-8') }
+})
+
 // Settings handlers
 ipcMain.handle('settings:save', async (_event, data: string) => {
   const fs = await import('fs/promises')
   const configPath = path.join(app.getPath('userData'), 'settings.json')
   await fs.writeFile(configPath, data, 'utf-8')
+  persistentSessions = JSON.parse(data).persistentSessions === true
   return true
 })
 
@@ -123,46 +447,8 @@ ipcMain.handle('settings:load', async () => {
   }
 })
 
-ipcMain.handle('settings:get-shell-path', async (_event, shellType: string) => {
-  const fs = await import('fs')
-
-  // macOS and Linux support
-  if (process.platform === 'darwin' || process.platform === 'linux') {
-    if (shellType === 'auto') {
-      return process.env.SHELL || '/bin/zsh'
-    }
-    // For non-auto, return the shellType as-is (custom path) or default shell
-    if (shellType === 'pwsh' || shellType === 'powershell' || shellType === 'cmd') {
-      // Windows shells requested on Unix - fall back to default
-      return process.env.SHELL || '/bin/zsh'
-    }
-    return shellType // custom path
-  }
-
-  // Windows support
-  if (shellType === 'auto' || shellType === 'pwsh') {
-    const pwshPaths = [
-      'C:\\Program Files\\PowerShell\\7\\pwsh.exe',
-      'C:\\Program Files (x86)\\PowerShell\\7\\pwsh.exe',
-      process.env.LOCALAPPDATA + '\\Microsoft\\WindowsApps\\pwsh.exe'
-    ]
-    for (const p of pwshPaths) {
-      if (fs.existsSync(p)) {
-        return p
-      }
-    }
-    if (shellType === 'pwsh') return 'pwsh.exe'
-  }
-
-  if (shellType === 'auto' || shellType === 'powershell') {
-    return 'powershell.exe'
-  }
-
-  if (shellType === 'cmd') {
-    return 'cmd.exe'
-  }
-
-  return shellType // custom path
+ipcMain.handle('settings:detect-shell-profiles', async () => {
+  return detectShellProfiles()
 })
 
 ipcMain.handle('shell:open-external', async (_event, url: string) => {
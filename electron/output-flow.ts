@@ -0,0 +1,99 @@
+import type { RendererSend } from './pty-manager'
+
+// Output is coalesced per terminal and sent at most once per frame
+const FLUSH_INTERVAL = 16
+// Characters the renderer received but xterm has not parsed yet
+const HIGH_WATERMARK = 256 * 1024
+const LOW_WATERMARK = 32 * 1024
+
+export interface FlowTarget {
+  pause: (id: string) => void
+  resume: (id: string) => void
+}
+
+// Batches pty output for the renderer and pauses a terminal's process while
+// the renderer is behind, until it acknowledges what it has written
+export class OutputFlow {
+  private pending: Map<string, string[]> = new Map()
+  private unacked: Map<string, number> = new Map()
+  private paused: Set<string> = new Set()
+  private flushTimer: NodeJS.Timeout | null = null
+  private sendToRenderer: RendererSend
+  private target: FlowTarget
+
+  constructor(sendToRenderer: RendererSend, target: FlowTarget) {
+    this.sendToRenderer = sendToRenderer
+    this.target = target
+  }
+
+  push(id: string, data: string): void {
+    const chunks = this.pending.get(id)
+    if (chunks) {
+      chunks.push(data)
+    } else {
+      this.pending.set(id, [data])
+    }
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL)
+    }
+  }
+
+  // Other terminal messages, delivered after the output that preceded them
+  send: RendererSend = (channel, ...args) => {
+    const [id] = args
+    if (typeof id === 'string') {
+      this.flushTerminal(id)
+    }
+    this.sendToRenderer(channel, ...args)
+  }
+
+  ack(id: string, chars: number): void {
+    const unacked = Math.max(0, (this.unacked.get(id) ?? 0) - chars)
+    this.unacked.set(id, unacked)
+    if (unacked < LOW_WATERMARK && this.paused.delete(id)) {
+      this.target.resume(id)
+    }
+  }
+
+  // Forget a closed terminal
+  remove(id: string): void {
+    this.pending.delete(id)
+    this.unacked.delete(id)
+    this.paused.delete(id)
+  }
+
+  // The renderer reloaded, acknowledgements of what it had received will never come
+  reset(): void {
+    this.unacked.clear()
+    this.paused.forEach(id => this.target.resume(id))
+    this.paused.clear()
+  }
+
+  dispose(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    this.pending.clear()
+  }
+
+  private flush(): void {
+    this.flushTimer = null
+    this.pending.forEach((_chunks, id) => this.flushTerminal(id))
+  }
+
+  private flushTerminal(id: string): void {
+    const chunks = this.pending.get(id)
+    if (!chunks) return
+    this.pending.delete(id)
+    const data = chunks.join('')
+    this.sendToRenderer('pty:output', id, data)
+
+    const unacked = (this.unacked.get(id) ?? 0) + data.length
+    this.unacked.set(id, unacked)
+    if (unacked > HIGH_WATERMARK && !this.paused.has(id)) {
+      this.paused.add(id)
+      this.target.pause(id)
+    }
+  }
+}
@@ -1,14 +1,19 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import type { CreatePtyOptions } from '../src/types'
+import type { CreatePtyOptions, RestartPtyOptions, AgentState, RestartPolicy, ExitStatus, GitStatus, GitFileChange } from '../src/types'
 
 const electronAPI = {
   pty: {
     create: (options: CreatePtyOptions) => ipcRenderer.invoke('pty:create', options),
     write: (id: string, data: string) => ipcRenderer.invoke('pty:write', id, data),
     resize: (id: string, cols: number, rows: number) => ipcRenderer.invoke('pty:resize', id, cols, rows),
+    ackOutput: (id: string, chars: number) => ipcRenderer.invoke('pty:ack-output', id, chars),
     kill: (id: string) => ipcRenderer.invoke('pty:kill', id),
-    restart: (id: string, cwd: string, shell?: string) => ipcRenderer.invoke('pty:restart', id, cwd, shell),
+    restart: (id: string, options: RestartPtyOptions) => ipcRenderer.invoke('pty:restart', id, options),
     getCwd: (id: string) => ipcRenderer.invoke('pty:get-cwd', id),
+    getAgentState: (id: string) => ipcRenderer.invoke('pty:get-agent-state', id),
+    stop: (id: string) => ipcRenderer.invoke('pty:stop', id),
+    setRestartPolicy: (id: string, policy: RestartPolicy) => ipcRenderer.invoke('pty:set-restart-policy', id, policy),
+    getExitStatus: (id: string) => ipcRenderer.invoke('pty:get-exit-status', id),
     onOutput: (callback: (id: string, data: string) => void) => {
       const handler = (_event: Electron.IpcRendererEvent, id: string, data: string) => callback(id, data)
       ipcRenderer.on('pty:output', handler)
@@ -18,19 +23,83 @@ const electronAPI = {
       const handler = (_event: Electron.IpcRendererEvent, id: string, exitCode: number) => callback(id, exitCode)
       ipcRenderer.on('pty:exit', handler)
       return () => ipcRenderer.removeListener('pty:exit', handler)
+    },
+    onCwdChanged: (callback: (id: string, cwd: string) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, id: string, cwd: string) => callback(id, cwd)
+      ipcRenderer.on('pty:cwd-changed', handler)
+      return () => ipcRenderer.removeListener('pty:cwd-changed', handler)
+    },
+    onExitStatusChanged: (callback: (id: string, status: ExitStatus) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, id: string, status: ExitStatus) => callback(id, status)
+      ipcRenderer.on('pty:exit-status-changed', handler)
+      return () => ipcRenderer.removeListener('pty:exit-status-changed', handler)
+    },
+    onAgentStateChanged: (callback: (id: string, state: AgentState) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, id: string, state: AgentState) => callback(id, state)
+      ipcRenderer.on('pty:agent-state-changed', handler)
+      return () => ipcRenderer.removeListener('pty:agent-state-changed', handler)
     }
   },
   workspace: {
     save: (data: string) => ipcRenderer.invoke('workspace:save', data),
-    load: () => ipcRenderer.invoke('workspace:load')
+    load: () => ipcRenderer.invoke('workspace:load'),
+    loadEnvFiles: (folderPath: string, files: string[]) => ipcRenderer.invoke('workspace:load-env-files', folderPath, files),
+    loadProjectConfig: (folderPath: string) => ipcRenderer.invoke('workspace:load-project-config', folderPath)
+  },
+  git: {
+    createWorktree: (folderPath: string, branch: string) => ipcRenderer.invoke('git:create-worktree', folderPath, branch),
+    watchStatus: (folderPath: string, compareRef?: string) => ipcRenderer.invoke('git:watch-status', folderPath, compareRef),
+    unwatchStatus: (folderPath: string) => ipcRenderer.invoke('git:unwatch-status', folderPath),
+    refreshStatus: (folderPath: string) => ipcRenderer.invoke('git:refresh-status', folderPath),
+    getStatus: (folderPath: string) => ipcRenderer.invoke('git:get-status', folderPath),
+    getDiff: (folderPath: string, file: GitFileChange) => ipcRenderer.invoke('git:get-diff', folderPath, file),
+    onStatusChanged: (callback: (folderPath: string, status: GitStatus | null) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, folderPath: string, status: GitStatus | null) => callback(folderPath, status)
+      ipcRenderer.on('git:status-changed', handler)
+      return () => ipcRenderer.removeListener('git:status-changed', handler)
+    },
+    mergeWorktree: (parentPath: string, branch: string, baseBranch: string) =>
+      ipcRenderer.invoke('git:merge-worktree', parentPath, branch, baseBranch),
+    removeWorktree: (parentPath: string, worktreePath: string, branch: string, force: boolean) =>
+      ipcRenderer.invoke('git:remove-worktree', parentPath, worktreePath, branch, force)
+  },
+  scrollback: {
+    save: (id: string, data: string) => ipcRenderer.invoke('scrollback:save', id, data),
+    load: (id: string) => ipcRenderer.invoke('scrollback:load', id),
+    delete: (id: string) => ipcRenderer.invoke('scrollback:delete', id)
+  },
+  notification: {
+    show: (options: { terminalId: string; title: string; body: string; flashFrame: boolean }) => ipcRenderer.invoke('notification:show', options),
+    setBadgeCount: (count: number) => ipcRenderer.invoke('notification:set-badge-count', count),
+    onClicked: (callback: (terminalId: string) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, terminalId: string) => callback(terminalId)
+      ipcRenderer.on('notification:clicked', handler)
+      return () => ipcRenderer.removeListener('notification:clicked', handler)
+    }
+  },
+  recording: {
+    start: (id: string, options: { title: string; recordInput: boolean }) => ipcRenderer.invoke('recording:start', id, options),
+    stop: (id: string) => ipcRenderer.invoke('recording:stop', id),
+    open: () => ipcRenderer.invoke('recording:open')
   },
   settings: {
     save: (data: string) => ipcRenderer.invoke('settings:save', data),
     load: () => ipcRenderer.invoke('settings:load'),
-    getShellPath: (shell: string) => ipcRenderer.invoke('settings:get-shell-path', shell)
+    detectShellProfiles: () => ipcRenderer.invoke('settings:detect-shell-profiles')
   },
   dialog: {
-    selectFolder: () => ipcRenderer.invoke('dialog:select-folder')
+    selectFolder: () => ipcRenderer.invoke('dialog:select-folder'),
+    saveFile: (defaultName: string, content: string, filters: { name: string; extensions: string[] }[]) =>
+      ipcRenderer.invoke('dialog:save-file', defaultName, content, filters),
+    openFile: (filters: { name: string; extensions: string[] }[]) => ipcRenderer.invoke('dialog:open-file', filters)
+  },
+  app: {
+    onBeforeClose: (callback: () => void) => {
+      const handler = () => callback()
+      ipcRenderer.on('app:before-close', handler)
+      return () => ipcRenderer.removeListener('app:before-close', handler)
+    },
+    closeReady: () => ipcRenderer.invoke('app:close-ready')
   },
   shell: {
     openExternal: (url: string) => ipcRenderer.invoke('shell:open-external', url)
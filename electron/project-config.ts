@@ -0,0 +1,48 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { ProjectConfig, StartupTask, RestartPolicy } from '../src/types'
+
+export const PROJECT_CONFIG_FILE = '.better-agent-terminal.json'
+
+const RESTART_POLICIES: RestartPolicy[] = ['never', 'on-failure', 'always']
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && Object.values(value).every(v => typeof v === 'string')
+}
+
+function parseTask(value: unknown, index: number): StartupTask {
+  const task = value as Partial<StartupTask> | null
+  if (!task || typeof task.name !== 'string' || typeof task.command !== 'string') {
+    throw new Error(`tasks[${index}] needs a "name" and a "command"`)
+  }
+  if (task.cwd !== undefined && typeof task.cwd !== 'string') {
+    throw new Error(`tasks[${index}].cwd must be a string`)
+  }
+  if (task.env !== undefined && !isStringRecord(task.env)) {
+    throw new Error(`tasks[${index}].env must map names to strings`)
+  }
+  if (task.restart !== undefined && !RESTART_POLICIES.includes(task.restart)) {
+    throw new Error(`tasks[${index}].restart must be one of ${RESTART_POLICIES.join(', ')}`)
+  }
+  return { name: task.name, command: task.command, cwd: task.cwd, env: task.env, restart: task.restart }
+}
+
+// Null config when the workspace has no project file
+export async function loadProjectConfig(folderPath: string): Promise<{ config: ProjectConfig | null; error?: string }> {
+  let content: string
+  try {
+    content = await fs.readFile(path.join(folderPath, PROJECT_CONFIG_FILE), 'utf-8')
+  } catch {
+    return { config: null }
+  }
+
+  try {
+    const json = JSON.parse(content)
+    if (json.tasks !== undefined && !Array.isArray(json.tasks)) {
+      throw new Error('"tasks" must be an array')
+    }
+    return { config: { tasks: json.tasks?.map(parseTask) } }
+  } catch (e) {
+    return { config: null, error: `${PROJECT_CONFIG_FILE}: ${e instanceof Error ? e.message : String(e)}` }
+  }
+}
@@ -1,6 +1,9 @@
-import { BrowserWindow } from 'electron'
 import { spawn, ChildProcess } from 'child_process'
-import type { CreatePtyOptions } from '../src/types'
+import { EventEmitter } from 'events'
+import type { CreatePtyOptions, RestartPtyOptions, AgentCommand, RestartPolicy, ExitStatus } from '../src/types'
+import { parseOsc7Cwd, readProcessCwd } from './cwd-tracker'
+import { getPwshPaths } from './shell-profiles'
+import { loadEnvFiles, withUtf8Defaults } from './environment'
 
 // Try to import node-pty, fall back to child_process if not available
 let pty: typeof import('node-pty') | null = null
@@ -20,26 +23,58 @@ interface PtyInstance {
   type: 'terminal' | 'claude-code'
   cwd: string
   usePty: boolean
+  isAgent: boolean // Running the agent command rather than a shell
+  startedAt: number
 }
 
-export class PtyManager {
+interface SpawnOptions {
+  id: string
+  type: 'terminal' | 'claude-code'
+  cwd: string
+  file: string
+  args: string[]
+  fallbackArgs: string[] // Arguments used with the child_process fallback
+  env: Record<string, string>
+  isAgent: boolean
+}
+
+// Automatic restarts back off from 1s to 30s, a process that ran this long resets the backoff
+const RESTART_BASE_DELAY = 1000
+const RESTART_MAX_DELAY = 30000
+const STABLE_RUN_TIME = 30000
+const MAX_EXIT_HISTORY = 50
+
+// Delivers a message to the renderer, or to the app attached to the session daemon
+export type RendererSend = (channel: string, ...args: unknown[]) => void
+
+// Output is only emitted, the app batches it for the renderer.
+// Emits 'spawn' (id, isAgent), 'output' (id, data), 'input' (id, data), 'resize' (id, cols, rows),
+// 'exit' (id, exitCode, isAgent) and 'closed' (id)
+export class PtyManager extends EventEmitter {
   private instances: Map<string, PtyInstance> = new Map()
-  private window: BrowserWindow
+  // Last create options per terminal, so restart works even after the process exited
+  private launchOptions: Map<string, CreatePtyOptions> = new Map()
+  private cwdCheckTimers: Map<string, NodeJS.Timeout> = new Map()
+  // Last known size per terminal, kept across restarts
+  private sizes: Map<string, { cols: number; rows: number }> = new Map()
+  private exitStatuses: Map<string, ExitStatus> = new Map()
+  private restartTimers: Map<string, NodeJS.Timeout> = new Map()
+  // Consecutive quick exits per terminal, drives the restart backoff
+  private failureCounts: Map<string, number> = new Map()
+  // Stopped by the user, their restart policy is ignored until they are created or restarted again
+  private stopped: Set<string> = new Set()
+  private send: RendererSend
 
-  constructor(window: BrowserWindow) {
-    this.window = window
+  constructor(send: RendererSend) {
+    super()
+    this.send = send
   }
 
   private getDefaultShell(): string {
     if (process.platform === 'win32') {
       // Prefer PowerShell 7 (pwsh) over Windows PowerShell
       const fs = require('fs')
-      const pwshPaths = [
-        'C:\\Program Files\\PowerShell\\7\\pwsh.exe',
-        'C:\\Program Files (x86)\\PowerShell\\7\\pwsh.exe',
-        process.env.LOCALAPPDATA + '\\Microsoft\\WindowsApps\\pwsh.exe'
-      ]
-      for (const p of pwshPaths) {
+      for (const p of getPwshPaths()) {
         if (fs.existsSync(p)) {
           return p
         }
@@ -60,135 +95,356 @@ export class PtyManager {
     }
   }
 
+  private getShellArgs(shell: string): string[] {
+    // For PowerShell (pwsh or powershell), bypass execution policy to allow unsigned scripts
+    if (shell.includes('powershell') || shell.includes('pwsh')) {
+      return ['-ExecutionPolicy', 'Bypass', '-NoLogo']
+    }
+    return []
+  }
+
+  // Resolve the executable and arguments used to launch the agent CLI
+  private getAgentSpawnCommand(agentCommand: AgentCommand): { file: string; args: string[] } {
+    if (process.platform === 'win32') {
+      // npm-installed CLIs are .cmd shims on Windows, so launch them through cmd.exe
+      const quote = (arg: string) => /[\s"]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg
+      const commandLine = [agentCommand.command, ...agentCommand.args].map(quote).join(' ')
+      return { file: 'cmd.exe', args: ['/d', '/s', '/c', commandLine] }
+    }
+    return { file: agentCommand.command, args: agentCommand.args }
+  }
+
   create(options: CreatePtyOptions): boolean {
-    const { id, cwd, type, shell: shellOverride } = options
+    // Already running, e.g. when the renderer reloads and restores its terminals
+    if (this.instances.has(options.id)) {
+      return true
+    }
+    this.launchOptions.set(options.id, options)
+    this.stopped.delete(options.id)
+
+    if (options.type === 'claude-code' && options.agentCommand?.command) {
+      if (this.spawnAgent(options)) {
+        return true
+      }
+      this.sendOutput(options.id, `\x1b[90m[Failed to launch ${options.agentCommand.command}, starting shell]\x1b[0m\r\n`)
+    }
 
-    const shell = shellOverride || this.getDefaultShell()
-    let args: string[] = []
+    return this.spawnShell(options)
+  }
 
-    // For PowerShell (pwsh or powershell), bypass execution policy to allow unsigned scripts
+  // .env files, then workspace overrides; missing files are reported in the terminal
+  private getWorkspaceEnv(options: CreatePtyOptions): Record<string, string> {
+    if (!options.envFiles?.length || !options.workspacePath) {
+      return { ...options.workspaceEnv }
+    }
+    const { env, errors } = loadEnvFiles(options.workspacePath, options.envFiles)
+    for (const error of errors) {
+      this.sendOutput(options.id, `\x1b[90m[Could not load ${error}]\x1b[0m\r\n`)
+    }
+    return { ...env, ...options.workspaceEnv }
+  }
+
+  private spawnAgent(options: CreatePtyOptions): boolean {
+    const agentCommand = options.agentCommand!
+    const { file, args } = this.getAgentSpawnCommand(agentCommand)
+    return this.spawn({
+      id: options.id,
+      type: options.type,
+      cwd: options.cwd,
+      file,
+      args,
+      fallbackArgs: args,
+      env: { ...this.getWorkspaceEnv(options), ...agentCommand.env },
+      isAgent: true
+    })
+  }
+
+  private spawnShell(options: CreatePtyOptions): boolean {
+    const shell = options.shell || this.getDefaultShell()
+    const args = options.shellArgs?.length ? options.shellArgs : this.getShellArgs(shell)
+
+    // Fallback to child_process with proper stdio
+    // For PowerShell, add -NoExit and UTF-8 command
+    const fallbackArgs = [...args]
     if (shell.includes('powershell') || shell.includes('pwsh')) {
-      args = ['-ExecutionPolicy', 'Bypass', '-NoLogo']
+      fallbackArgs.push(
+        '-NoExit',
+        '-Command',
+        '[Console]::OutputEncoding = [System.Text.Encoding]::UTF8; [Console]::InputEncoding = [System.Text.Encoding]::UTF8; $OutputEncoding = [System.Text.Encoding]::UTF8'
+      )
     }
 
-    // Try node-pty first, fallback to child_process if it fails
-    let usedPty = false
+    const spawned = this.spawn({
+      id: options.id,
+      type: options.type,
+      cwd: options.cwd,
+      file: shell,
+      args,
+      fallbackArgs,
+      env: { ...this.getWorkspaceEnv(options), ...options.shellEnv },
+      isAgent: false
+    })
+    // The shell reads it as type-ahead once its prompt is ready
+    if (spawned && options.startupCommand) {
+      const command = (options.restartPolicy ?? 'never') === 'never'
+        ? options.startupCommand
+        : this.withShellExit(shell, options.startupCommand)
+      this.write(options.id, `${command}\r`)
+    }
+    return spawned
+  }
+
+  // Make the shell exit with the command's code so the restart policy sees it
+  private withShellExit(shell: string, command: string): string {
+    const name = shell.toLowerCase()
+    if (name.includes('powershell') || name.includes('pwsh')) {
+      return `${command}; exit $LASTEXITCODE`
+    }
+    if (name.endsWith('cmd.exe') || name === 'cmd') {
+      return `${command} & exit`
+    }
+    return `${command}; exit`
+  }
+
+  private spawn(spawnOptions: SpawnOptions): boolean {
+    const { id, type, cwd, file, args, fallbackArgs, env, isAgent } = spawnOptions
+
+    // System environment, then the workspace, profile or agent variables, UTF-8 defaults for what is left unset
+    const envWithUtf8 = withUtf8Defaults({ ...process.env, ...env })
 
+    // Try node-pty first, fallback to child_process if it fails
     if (ptyAvailable && pty) {
       try {
-        // Set UTF-8 environment variables
-        const envWithUtf8 = {
-          ...process.env,
-          LANG: 'en_US.UTF-8',
-          LC_ALL: 'en_US.UTF-8',
-          PYTHONIOENCODING: 'utf-8',
-          PYTHONUTF8: '1'
-        }
-
-        const ptyProcess = pty.spawn(shell, args, {
+        const { cols, rows } = this.getSize(id)
+        const ptyProcess = pty.spawn(file, args, {
           name: 'xterm-256color',
-          cols: 120,
-          rows: 30,
+          cols,
+          rows,
           cwd,
           env: envWithUtf8 as { [key: string]: string }
         })
 
         ptyProcess.onData((data: string) => {
-          if (!this.window.isDestroyed()) {
-            this.window.webContents.send('pty:output', id, data)
-          }
+          this.handleData(id, data)
         })
 
         ptyProcess.onExit(({ exitCode }: { exitCode: number }) => {
-          if (!this.window.isDestroyed()) {
-            this.window.webContents.send('pty:exit', id, exitCode)
-          }
-          this.instances.delete(id)
+          this.handleExit(id, ptyProcess, exitCode)
         })
 
-        this.instances.set(id, { process: ptyProcess, type, cwd, usePty: true })
-        usedPty = true
+        this.instances.set(id, { process: ptyProcess, type, cwd, usePty: true, isAgent, startedAt: Date.now() })
+        this.emit('spawn', id, isAgent)
+        this.markRunning(id)
         console.log('Created terminal using node-pty')
+        return true
       } catch (e) {
+        if (isAgent) {
+          // The agent executable may simply be missing, keep node-pty enabled for the shell
+          console.warn('Failed to launch agent command:', e)
+          return false
+        }
         console.warn('node-pty spawn failed, falling back to child_process:', e)
         ptyAvailable = false // Don't try again
       }
     }
 
-    if (!usedPty) {
-      try {
-        // Fallback to child_process with proper stdio
-        // For PowerShell, add -NoExit and UTF-8 command
-        let shellArgs = [...args]
-        if (shell.includes('powershell') || shell.includes('pwsh')) {
-          shellArgs.push(
-            '-NoExit',
-            '-Command',
-            '[Console]::OutputEncoding = [System.Text.Encoding]::UTF8; [Console]::InputEncoding = [System.Text.Encoding]::UTF8; $OutputEncoding = [System.Text.Encoding]::UTF8'
-          )
-        }
+    try {
+      const childProcess = spawn(file, fallbackArgs, {
+        cwd,
+        env: envWithUtf8 as NodeJS.ProcessEnv,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: false
+      })
+
+      childProcess.stdout?.on('data', (data: Buffer) => {
+        this.handleData(id, data.toString())
+      })
 
-        // Set UTF-8 environment variables
-        const envWithUtf8 = {
-          ...process.env,
-          LANG: 'en_US.UTF-8',
-          LC_ALL: 'en_US.UTF-8',
-          PYTHONIOENCODING: 'utf-8',
-          PYTHONUTF8: '1'
+      childProcess.stderr?.on('data', (data: Buffer) => {
+        this.handleData(id, data.toString())
+      })
+
+      childProcess.on('exit', (exitCode: number | null) => {
+        this.handleExit(id, childProcess, exitCode ?? 0)
+      })
+
+      childProcess.on('error', (error) => {
+        console.error('Child process error:', error)
+        this.sendOutput(id, `\r\n[Error: ${error.message}]\r\n`)
+        // A missing executable never emits 'exit', treat it as a failed launch
+        if (!childProcess.pid) {
+          this.handleExit(id, childProcess, 1)
         }
+      })
 
-        const childProcess = spawn(shell, shellArgs, {
-          cwd,
-          env: envWithUtf8 as NodeJS.ProcessEnv,
-          stdio: ['pipe', 'pipe', 'pipe'],
-          shell: false
-        })
+      // Send initial message
+      this.sendOutput(id, `[Terminal - child_process mode]\r\n`)
 
-        childProcess.stdout?.on('data', (data: Buffer) => {
-          if (!this.window.isDestroyed()) {
-            this.window.webContents.send('pty:output', id, data.toString())
-          }
-        })
+      this.instances.set(id, { process: childProcess, type, cwd, usePty: false, isAgent, startedAt: Date.now() })
+      this.emit('spawn', id, isAgent)
+      this.markRunning(id)
+      console.log('Created terminal using child_process fallback')
+    } catch (error) {
+      console.error('Failed to create terminal:', error)
+      return false
+    }
 
-        childProcess.stderr?.on('data', (data: Buffer) => {
-          if (!this.window.isDestroyed()) {
-            this.window.webContents.send('pty:output', id, data.toString())
-          }
-        })
+    return true
+  }
 
-        childProcess.on('exit', (exitCode: number | null) => {
-          if (!this.window.isDestroyed()) {
-            this.window.webContents.send('pty:exit', id, exitCode ?? 0)
-          }
-          this.instances.delete(id)
-        })
+  private handleData(id: string, data: string): void {
+    this.sendOutput(id, data)
 
-        childProcess.on('error', (error) => {
-          console.error('Child process error:', error)
-          if (!this.window.isDestroyed()) {
-            this.window.webContents.send('pty:output', id, `\r\n[Error: ${error.message}]\r\n`)
-          }
-        })
+    const reportedCwd = parseOsc7Cwd(data)
+    if (reportedCwd) {
+      this.updateCwd(id, reportedCwd)
+    } else {
+      this.scheduleCwdCheck(id)
+    }
+  }
 
-        // Send initial message
-        if (!this.window.isDestroyed()) {
-          this.window.webContents.send('pty:output', id, `[Terminal - child_process mode]\r\n`)
-        }
+  // Output usually follows a `cd`, so re-read the process cwd shortly after it settles
+  private scheduleCwdCheck(id: string): void {
+    if (process.platform !== 'linux') return
+    const existing = this.cwdCheckTimers.get(id)
+    if (existing) {
+      clearTimeout(existing)
+    }
+    this.cwdCheckTimers.set(id, setTimeout(async () => {
+      this.cwdCheckTimers.delete(id)
+      const pid = this.instances.get(id)?.process.pid
+      if (!pid) return
+      const cwd = await readProcessCwd(pid)
+      if (cwd) {
+        this.updateCwd(id, cwd)
+      }
+    }, 300))
+  }
+
+  private updateCwd(id: string, cwd: string): void {
+    const instance = this.instances.get(id)
+    if (!instance || instance.cwd === cwd) return
+    instance.cwd = cwd
+    this.send('pty:cwd-changed', id, cwd)
+  }
+
+  private sendOutput(id: string, data: string): void {
+    this.emit('output', id, data)
+  }
 
-        this.instances.set(id, { process: childProcess, type, cwd, usePty: false })
-        console.log('Created terminal using child_process fallback')
-      } catch (error) {
-        console.error('Failed to create terminal:', error)
-        return false
+  private handleExit(id: string, proc: unknown, exitCode: number): void {
+    const instance = this.instances.get(id)
+    // Ignore exits of processes that were killed or replaced by a restart
+    if (!instance || instance.process !== proc) return
+    this.instances.delete(id)
+    this.emit('exit', id, exitCode, instance.isAgent)
+    const status = this.getExitStatus(id)
+    status.running = false
+    status.history = [...status.history, { exitCode, exitedAt: Date.now() }].slice(-MAX_EXIT_HISTORY)
+
+    const options = this.launchOptions.get(id)
+    if (options && !this.stopped.has(id) && this.shouldRestart(options.restartPolicy, exitCode)) {
+      this.scheduleRestart(id, instance.cwd, exitCode, Date.now() - instance.startedAt)
+      return
+    }
+    this.sendExitStatus(id)
+
+    // When the agent exits, drop back to a shell in the same pane
+    if (instance.isAgent && options) {
+      this.sendOutput(id, `\r\n\x1b[90m[Agent exited with code ${exitCode}, starting shell]\x1b[0m\r\n`)
+      if (this.spawnShell({ ...options, cwd: instance.cwd })) {
+        return
       }
     }
 
-    return true
+    this.send('pty:exit', id, exitCode)
+  }
+
+  private shouldRestart(policy: RestartPolicy | undefined, exitCode: number): boolean {
+    return policy === 'always' || (policy === 'on-failure' && exitCode !== 0)
+  }
+
+  private scheduleRestart(id: string, cwd: string, exitCode: number, uptime: number): void {
+    const failures = uptime >= STABLE_RUN_TIME ? 1 : (this.failureCounts.get(id) ?? 0) + 1
+    this.failureCounts.set(id, failures)
+    const delay = Math.min(RESTART_BASE_DELAY * 2 ** (failures - 1), RESTART_MAX_DELAY)
+    this.sendOutput(id, `\r\n\x1b[90m[Exited with code ${exitCode}, restarting in ${delay / 1000}s]\x1b[0m\r\n`)
+
+    this.getExitStatus(id).restartAt = Date.now() + delay
+    this.sendExitStatus(id)
+    this.restartTimers.set(id, setTimeout(() => {
+      this.restartTimers.delete(id)
+      // Latest options, the policy may have changed while waiting
+      const options = this.launchOptions.get(id)
+      if (options && !this.create({ ...options, cwd })) {
+        this.sendOutput(id, `\x1b[90m[Restart failed]\x1b[0m\r\n`)
+        this.getExitStatus(id).restartAt = undefined
+        this.sendExitStatus(id)
+      }
+    }, delay))
+  }
+
+  private cancelRestart(id: string): void {
+    const timer = this.restartTimers.get(id)
+    if (timer) {
+      clearTimeout(timer)
+      this.restartTimers.delete(id)
+    }
+    const status = this.exitStatuses.get(id)
+    if (status?.restartAt) {
+      status.restartAt = undefined
+      this.sendExitStatus(id)
+    }
+  }
+
+  private markRunning(id: string): void {
+    const status = this.getExitStatus(id)
+    const last = status.history[status.history.length - 1]
+    if (last && !status.running && !last.restartedAt) {
+      last.restartedAt = Date.now()
+    }
+    status.running = true
+    status.restartAt = undefined
+    this.sendExitStatus(id)
+  }
+
+  private sendExitStatus(id: string): void {
+    this.send('pty:exit-status-changed', id, this.getExitStatus(id))
+  }
+
+  getExitStatus(id: string): ExitStatus {
+    let status = this.exitStatuses.get(id)
+    if (!status) {
+      status = { running: this.instances.has(id), history: [] }
+      this.exitStatuses.set(id, status)
+    }
+    return status
+  }
+
+  // Applies to the next exit; a pending restart is dropped when the new policy would not restart
+  setRestartPolicy(id: string, policy: RestartPolicy): void {
+    const options = this.launchOptions.get(id)
+    if (!options) return
+    this.launchOptions.set(id, { ...options, restartPolicy: policy })
+    const last = this.exitStatuses.get(id)?.history.slice(-1)[0]
+    if (this.restartTimers.has(id) && !(last && this.shouldRestart(policy, last.exitCode))) {
+      this.cancelRestart(id)
+    }
+  }
+
+  // Interrupt the process and drop a pending restart, an exit caused by the interrupt is not restarted
+  stop(id: string): void {
+    this.cancelRestart(id)
+    if (this.launchOptions.has(id)) {
+      this.stopped.add(id)
+    }
+    this.write(id, '\x03')
   }
 
   write(id: string, data: string): void {
     const instance = this.instances.get(id)
     if (instance) {
+      this.emit('input', id, data)
       if (instance.usePty) {
         instance.process.write(data)
       } else {
@@ -200,13 +456,63 @@ export class PtyManager {
   }
 
   resize(id: string, cols: number, rows: number): void {
+    const previous = this.sizes.get(id)
+    if (!previous || previous.cols !== cols || previous.rows !== rows) {
+      this.sizes.set(id, { cols, rows })
+      this.emit('resize', id, cols, rows)
+    }
     const instance = this.instances.get(id)
     if (instance && instance.usePty) {
       instance.process.resize(cols, rows)
     }
   }
 
+  // Flow control, stop reading from the process while the renderer catches up
+  pause(id: string): void {
+    const instance = this.instances.get(id)
+    if (!instance) return
+    if (instance.usePty) {
+      instance.process.pause()
+    } else {
+      const cp = instance.process as ChildProcess
+      cp.stdout?.pause()
+      cp.stderr?.pause()
+    }
+  }
+
+  resume(id: string): void {
+    const instance = this.instances.get(id)
+    if (!instance) return
+    if (instance.usePty) {
+      instance.process.resume()
+    } else {
+      const cp = instance.process as ChildProcess
+      cp.stdout?.resume()
+      cp.stderr?.resume()
+    }
+  }
+
+  getSize(id: string): { cols: number; rows: number } {
+    return this.sizes.get(id) ?? { cols: 120, rows: 30 }
+  }
+
   kill(id: string): boolean {
+    this.cancelRestart(id)
+    this.launchOptions.delete(id)
+    this.sizes.delete(id)
+    this.exitStatuses.delete(id)
+    this.failureCounts.delete(id)
+    this.stopped.delete(id)
+    this.emit('closed', id)
+    return this.terminate(id)
+  }
+
+  private terminate(id: string): boolean {
+    const timer = this.cwdCheckTimers.get(id)
+    if (timer) {
+      clearTimeout(timer)
+      this.cwdCheckTimers.delete(id)
+    }
     const instance = this.instances.get(id)
     if (instance) {
       if (instance.usePty) {
@@ -220,16 +526,28 @@ export class PtyManager {
     return false
   }
 
-  restart(id: string, cwd: string, shell?: string): boolean {
-    const instance = this.instances.get(id)
-    if (instance) {
-      const type = instance.type
-      this.kill(id)
-      return this.create({ id, cwd, type, shell })
+  // Restart relaunches the agent for claude-code terminals
+  restart(id: string, restartOptions: RestartPtyOptions): boolean {
+    const options = this.launchOptions.get(id)
+    if (options) {
+      this.cancelRestart(id)
+      this.failureCounts.delete(id)
+      this.stopped.delete(id)
+      this.terminate(id)
+      return this.create({ ...options, ...restartOptions })
     }
     return false
   }
 
+  // Running processes, announced again when an app attaches to the session daemon
+  getSessions(): { id: string; isAgent: boolean }[] {
+    return Array.from(this.instances, ([id, instance]) => ({ id, isAgent: instance.isAgent }))
+  }
+
+  hasActiveSessions(): boolean {
+    return this.instances.size > 0 || this.restartTimers.size > 0
+  }
+
   getCwd(id: string): string | null {
     const instance = this.instances.get(id)
     if (instance) {
@@ -239,6 +557,8 @@ export class PtyManager {
   }
 
   dispose(): void {
+    this.restartTimers.forEach(timer => clearTimeout(timer))
+    this.restartTimers.clear()
     for (const [id] of this.instances) {
       this.kill(id)
     }
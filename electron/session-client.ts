@@ -0,0 +1,196 @@
+import { spawn } from 'child_process'
+import { EventEmitter } from 'events'
+import * as net from 'net'
+import * as path from 'path'
+import type { CreatePtyOptions, RestartPtyOptions, RestartPolicy, ExitStatus } from '../src/types'
+import type { RendererSend } from './pty-manager'
+import { readMessages, writeMessage } from './session-protocol'
+import type { DaemonMessage } from './session-protocol'
+
+interface PendingCall {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+}
+
+// Start the daemon detached from the app so it survives quitting
+export function startSessionDaemon(socketPath: string): void {
+  const daemon = spawn(process.execPath, [path.join(__dirname, 'session-daemon.js'), socketPath], {
+    detached: true,
+    stdio: 'ignore',
+    env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' }
+  })
+  daemon.unref()
+}
+
+function connectSocket(socketPath: string): Promise<net.Socket | null> {
+  return new Promise(resolve => {
+    const socket = net.connect(socketPath)
+    socket.once('connect', () => resolve(socket))
+    socket.once('error', () => resolve(null))
+  })
+}
+
+// Same surface as PtyManager, backed by the terminals of the session daemon.
+// Re-emits the daemon's PtyManager events and forwards its renderer messages.
+// When the daemon goes away its terminals are reported as exited and 'disconnected' is emitted.
+export class SessionClient extends EventEmitter {
+  private socket: net.Socket
+  private send: RendererSend
+  private seq = 0
+  private pending: Map<number, PendingCall> = new Map()
+  private sizes: Map<string, { cols: number; rows: number }> = new Map()
+  // Terminals the daemon hosts for this app
+  private terminalIds: Set<string> = new Set()
+  private disposed = false
+
+  private constructor(socket: net.Socket, send: RendererSend) {
+    super()
+    this.socket = socket
+    this.send = send
+    readMessages<DaemonMessage>(socket, message => this.handleMessage(message))
+    socket.on('error', (error) => console.error('Session daemon connection error:', error))
+    socket.on('close', () => this.handleClose())
+  }
+
+  // Null when no daemon is listening, retries give a just started daemon time to listen.
+  // Call attach() once the event listeners are in place.
+  static async connect(socketPath: string, send: RendererSend, retries = 0): Promise<SessionClient | null> {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+      const socket = await connectSocket(socketPath)
+      if (socket) {
+        return new SessionClient(socket, send)
+      }
+    }
+    return null
+  }
+
+  private handleClose(): void {
+    this.pending.forEach(call => call.reject(new Error('Session daemon disconnected')))
+    this.pending.clear()
+    if (this.disposed) return
+    // The daemon exited or crashed, its terminals went with it
+    this.terminalIds.forEach(id => {
+      this.emit('closed', id)
+      this.send('pty:exit', id, -1)
+    })
+    this.terminalIds.clear()
+    this.emit('disconnected')
+  }
+
+  private handleMessage(message: DaemonMessage): void {
+    if (message.type === 'result') {
+      const call = this.pending.get(message.seq)
+      this.pending.delete(message.seq)
+      if (message.error) {
+        call?.reject(new Error(message.error))
+      } else {
+        call?.resolve(message.value)
+      }
+    } else if (message.type === 'event') {
+      if (message.name === 'resize') {
+        const [id, cols, rows] = message.args as [string, number, number]
+        this.sizes.set(id, { cols, rows })
+      } else if (message.name === 'closed') {
+        this.terminalIds.delete(message.args[0] as string)
+      }
+      this.emit(message.name, ...message.args)
+    } else if (message.type === 'send') {
+      this.send(message.channel, ...message.args)
+    }
+  }
+
+  private call<T>(method: string, ...args: unknown[]): Promise<T> {
+    const seq = ++this.seq
+    return new Promise<T>((resolve, reject) => {
+      if (this.socket.destroyed) {
+        reject(new Error('Session daemon disconnected'))
+        return
+      }
+      this.pending.set(seq, { resolve: resolve as (value: unknown) => void, reject })
+      writeMessage(this.socket, { type: 'call', seq, method, args })
+    })
+  }
+
+  // Fire and forget, for calls on the input path
+  private notify(method: string, ...args: unknown[]): void {
+    writeMessage(this.socket, { type: 'call', method, args })
+  }
+
+  // Announce the terminals that kept running, so agent tracking picks them up again
+  async attach(): Promise<void> {
+    const sessions = await this.call<{ id: string; isAgent: boolean }[]>('attach')
+    for (const { id, isAgent } of sessions) {
+      this.terminalIds.add(id)
+      this.sizes.set(id, await this.call('getSize', id))
+      this.emit('spawn', id, isAgent)
+    }
+  }
+
+  create(options: CreatePtyOptions): Promise<boolean> {
+    this.terminalIds.add(options.id)
+    return this.call('create', options)
+  }
+
+  write(id: string, data: string): void {
+    this.notify('write', id, data)
+  }
+
+  resize(id: string, cols: number, rows: number): void {
+    this.sizes.set(id, { cols, rows })
+    this.notify('resize', id, cols, rows)
+  }
+
+  pause(id: string): void {
+    this.notify('pause', id)
+  }
+
+  resume(id: string): void {
+    this.notify('resume', id)
+  }
+
+  getSize(id: string): { cols: number; rows: number } {
+    return this.sizes.get(id) ?? { cols: 120, rows: 30 }
+  }
+
+  kill(id: string): Promise<boolean> {
+    this.sizes.delete(id)
+    this.terminalIds.delete(id)
+    return this.call('kill', id)
+  }
+
+  restart(id: string, restartOptions: RestartPtyOptions): Promise<boolean> {
+    return this.call('restart', id, restartOptions)
+  }
+
+  stop(id: string): void {
+    this.notify('stop', id)
+  }
+
+  setRestartPolicy(id: string, policy: RestartPolicy): void {
+    this.notify('setRestartPolicy', id, policy)
+  }
+
+  getExitStatus(id: string): Promise<ExitStatus> {
+    return this.call('getExitStatus', id)
+  }
+
+  getCwd(id: string): Promise<string | null> {
+    return this.call('getCwd', id)
+  }
+
+  // Detach, the terminals keep running in the daemon
+  dispose(): void {
+    this.disposed = true
+    this.socket.end()
+  }
+
+  // Stop the daemon together with every terminal it hosts
+  shutdown(): void {
+    this.disposed = true
+    this.notify('shutdown')
+    this.socket.end()
+  }
+}
@@ -0,0 +1,163 @@
+// Background host for terminals that outlive the app window, started by the
+// app with ELECTRON_RUN_AS_NODE and reached over a Unix socket or named pipe
+import * as fs from 'fs'
+import * as net from 'net'
+import { PtyManager } from './pty-manager'
+import { readMessages, writeMessage } from './session-protocol'
+import type { ClientMessage } from './session-protocol'
+import type { CreatePtyOptions, RestartPtyOptions, RestartPolicy } from '../src/types'
+
+// Output kept per terminal while no app is attached
+const MAX_BACKLOG_CHARS = 256 * 1024
+
+const FORWARDED_EVENTS = ['spawn', 'input', 'resize', 'exit', 'closed']
+
+const socketPath = process.argv[2]
+let client: net.Socket | null = null
+// Terminals the attached app restored, their output streams instead of being buffered
+const attached: Set<string> = new Set()
+const backlogs: Map<string, string> = new Map()
+// Paused by the app's flow control, resumed when it detaches
+const paused: Set<string> = new Set()
+
+const ptyManager = new PtyManager((channel, ...args) => {
+  if (client) {
+    writeMessage(client, { type: 'send', channel, args })
+  }
+})
+
+ptyManager.on('output', (id: string, data: string) => {
+  if (client && attached.has(id)) {
+    writeMessage(client, { type: 'event', name: 'output', args: [id, data] })
+    return
+  }
+  const backlog = (backlogs.get(id) ?? '') + data
+  // Start at a line boundary so the replay doesn't begin inside an escape sequence
+  const start = backlog.length > MAX_BACKLOG_CHARS
+    ? backlog.indexOf('\n', backlog.length - MAX_BACKLOG_CHARS) + 1
+    : 0
+  backlogs.set(id, backlog.slice(start))
+})
+
+for (const name of FORWARDED_EVENTS) {
+  ptyManager.on(name, (...args: unknown[]) => {
+    if (client) {
+      writeMessage(client, { type: 'event', name, args })
+    }
+  })
+}
+
+// Nothing left to keep alive once the app is gone and every process ended
+function shutdownIfIdle(): void {
+  if (!client && !ptyManager.hasActiveSessions()) {
+    shutdown()
+  }
+}
+ptyManager.on('exit', () => setImmediate(shutdownIfIdle))
+ptyManager.on('closed', () => setImmediate(shutdownIfIdle))
+
+function shutdown(): void {
+  ptyManager.dispose()
+  server.close()
+  process.exit(0)
+}
+
+// Arguments arrive as JSON from the app, each method names the types it expects
+const methods: Record<string, (...args: never[]) => unknown> = {
+  attach: () => ptyManager.getSessions(),
+  // Also how the app reattaches a running terminal: replay what it missed, then stream
+  create: (options: CreatePtyOptions) => {
+    const backlog = backlogs.get(options.id)
+    backlogs.delete(options.id)
+    if (backlog && client) {
+      writeMessage(client, { type: 'event', name: 'output', args: [options.id, backlog] })
+    }
+    attached.add(options.id)
+    return ptyManager.create(options)
+  },
+  write: (id: string, data: string) => ptyManager.write(id, data),
+  resize: (id: string, cols: number, rows: number) => ptyManager.resize(id, cols, rows),
+  kill: (id: string) => {
+    attached.delete(id)
+    backlogs.delete(id)
+    paused.delete(id)
+    return ptyManager.kill(id)
+  },
+  restart: (id: string, options: RestartPtyOptions) => {
+    attached.add(id)
+    return ptyManager.restart(id, options)
+  },
+  pause: (id: string) => {
+    paused.add(id)
+    ptyManager.pause(id)
+  },
+  resume: (id: string) => {
+    paused.delete(id)
+    ptyManager.resume(id)
+  },
+  stop: (id: string) => ptyManager.stop(id),
+  setRestartPolicy: (id: string, policy: RestartPolicy) => ptyManager.setRestartPolicy(id, policy),
+  getExitStatus: (id: string) => ptyManager.getExitStatus(id),
+  getCwd: (id: string) => ptyManager.getCwd(id),
+  getSize: (id: string) => ptyManager.getSize(id),
+  shutdown
+}
+
+function handleConnection(socket: net.Socket): void {
+  // One app at a time, a newer one takes over
+  if (client) {
+    client.destroy()
+  }
+  client = socket
+  attached.clear()
+
+  readMessages<ClientMessage>(socket, message => {
+    if (message.type !== 'call') return
+    const method = methods[message.method]
+    let reply: { value?: unknown; error?: string }
+    try {
+      if (!method) throw new Error(`Unknown method ${message.method}`)
+      reply = { value: method(...(message.args as never[])) }
+    } catch (e) {
+      reply = { error: e instanceof Error ? e.message : String(e) }
+    }
+    if (message.seq !== undefined) {
+      writeMessage(socket, { type: 'result', seq: message.seq, ...reply })
+    }
+  })
+
+  socket.on('error', (error) => console.error('Session client error:', error))
+  socket.on('close', () => {
+    if (client !== socket) return
+    client = null
+    attached.clear()
+    paused.forEach(id => ptyManager.resume(id))
+    paused.clear()
+    shutdownIfIdle()
+  })
+}
+
+const server = net.createServer(handleConnection)
+
+// A socket file left by a crashed daemon refuses connections, replace it
+server.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code !== 'EADDRINUSE' || process.platform === 'win32') {
+    console.error('Session daemon failed to listen:', error)
+    process.exit(1)
+  }
+  const probe = net.connect(socketPath)
+  probe.on('connect', () => {
+    // Another daemon is already serving this socket
+    probe.destroy()
+    process.exit(0)
+  })
+  probe.on('error', () => {
+    fs.rmSync(socketPath, { force: true })
+    server.listen(socketPath)
+  })
+})
+
+server.listen(socketPath)
+
+// The app connects right after starting the daemon, don't linger if it never does
+setTimeout(shutdownIfIdle, 10000)
@@ -0,0 +1,52 @@
+import * as os from 'os'
+import * as path from 'path'
+import type { Socket } from 'net'
+
+// Messages are JSON, one per line
+export type ClientMessage = {
+  type: 'call'
+  seq?: number // Calls without a sequence number get no result
+  method: string
+  args: unknown[]
+}
+
+export type DaemonMessage =
+  | { type: 'result'; seq: number; value?: unknown; error?: string }
+  | { type: 'event'; name: string; args: unknown[] } // PtyManager events
+  | { type: 'send'; channel: string; args: unknown[] } // Messages for the renderer
+
+export function getSessionSocketPath(userDataPath: string): string {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\better-agent-terminal-${os.userInfo().username}`
+  }
+  return path.join(userDataPath, 'sessions.sock')
+}
+
+export function writeMessage(socket: Socket, message: ClientMessage | DaemonMessage): void {
+  if (!socket.destroyed) {
+    socket.write(JSON.stringify(message) + '\n')
+  }
+}
+
+export function readMessages<T>(socket: Socket, onMessage: (message: T) => void): void {
+  let buffered = ''
+  socket.setEncoding('utf-8')
+  socket.on('data', (chunk: string) => {
+    buffered += chunk
+    let newline = buffered.indexOf('\n')
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline)
+      buffered = buffered.slice(newline + 1)
+      let message: T | undefined
+      try {
+        message = line ? JSON.parse(line) : undefined
+      } catch (e) {
+        console.error('Invalid session message:', e)
+      }
+      if (message) {
+        onMessage(message)
+      }
+      newline = buffered.indexOf('\n')
+    }
+  })
+}
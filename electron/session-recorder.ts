@@ -0,0 +1,85 @@
+import fs from 'fs'
+
+export interface RecordingOptions {
+  cols: number
+  rows: number
+  title?: string
+  recordInput: boolean
+}
+
+interface Recording {
+  stream: fs.WriteStream
+  filePath: string
+  startTime: number
+  recordInput: boolean
+}
+
+// Writes terminal sessions as asciicast v2 files (https://docs.asciinema.org/manual/asciicast/v2/)
+export class SessionRecorder {
+  private recordings: Map<string, Recording> = new Map()
+
+  start(id: string, filePath: string, options: RecordingOptions): void {
+    this.stop(id)
+
+    const stream = fs.createWriteStream(filePath, { encoding: 'utf-8' })
+    stream.on('error', (error) => {
+      console.error('Failed to write recording:', error)
+      this.recordings.delete(id)
+    })
+
+    const startTime = Date.now()
+    const header = {
+      version: 2,
+      width: options.cols,
+      height: options.rows,
+      timestamp: Math.floor(startTime / 1000),
+      title: options.title,
+      env: {
+        SHELL: process.env.SHELL,
+        TERM: 'xterm-256color'
+      }
+    }
+    stream.write(JSON.stringify(header) + '\n')
+
+    this.recordings.set(id, { stream, filePath, startTime, recordInput: options.recordInput })
+  }
+
+  stop(id: string): string | null {
+    const recording = this.recordings.get(id)
+    if (!recording) return null
+    this.recordings.delete(id)
+    recording.stream.end()
+    return recording.filePath
+  }
+
+  isRecording(id: string): boolean {
+    return this.recordings.has(id)
+  }
+
+  recordOutput(id: string, data: string): void {
+    this.writeEvent(id, 'o', data)
+  }
+
+  recordInput(id: string, data: string): void {
+    if (this.recordings.get(id)?.recordInput) {
+      this.writeEvent(id, 'i', data)
+    }
+  }
+
+  recordResize(id: string, cols: number, rows: number): void {
+    this.writeEvent(id, 'r', `${cols}x${rows}`)
+  }
+
+  private writeEvent(id: string, type: 'o' | 'i' | 'r', data: string): void {
+    const recording = this.recordings.get(id)
+    if (!recording) return
+    const elapsed = (Date.now() - recording.startTime) / 1000
+    recording.stream.write(JSON.stringify([Number(elapsed.toFixed(6)), type, data]) + '\n')
+  }
+
+  dispose(): void {
+    for (const id of Array.from(this.recordings.keys())) {
+      this.stop(id)
+    }
+  }
+}
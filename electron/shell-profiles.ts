@@ -0,0 +1,66 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { ShellProfile } from '../src/types'
+
+// Login-restricting entries that are not interactive shells
+const NON_INTERACTIVE_SHELLS = new Set(['nologin', 'false', 'git-shell'])
+
+// Install locations of PowerShell 7, in order of preference
+export function getPwshPaths(): string[] {
+  return [
+    'C:\\Program Files\\PowerShell\\7\\pwsh.exe',
+    'C:\\Program Files (x86)\\PowerShell\\7\\pwsh.exe',
+    process.env.LOCALAPPDATA + '\\Microsoft\\WindowsApps\\pwsh.exe'
+  ]
+}
+
+function detectWindowsShells(): ShellProfile[] {
+  const profiles: ShellProfile[] = []
+  const pwsh = getPwshPaths().find(p => fs.existsSync(p))
+  if (pwsh) {
+    profiles.push({ id: 'pwsh', name: 'PowerShell 7', path: pwsh, args: [], env: {}, detected: true })
+  }
+  profiles.push(
+    { id: 'powershell', name: 'Windows PowerShell', path: 'powershell.exe', args: [], env: {}, detected: true },
+    { id: 'cmd', name: 'Command Prompt', path: 'cmd.exe', args: [], env: {}, detected: true }
+  )
+  return profiles
+}
+
+// Shells listed in /etc/shells, the user's login shell first
+function detectUnixShells(): ShellProfile[] {
+  let listed: string[] = []
+  try {
+    listed = fs.readFileSync('/etc/shells', 'utf-8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.startsWith('/'))
+  } catch {
+    // Some minimal systems have no /etc/shells
+  }
+
+  const candidates = [process.env.SHELL, ...listed, '/bin/sh'].filter((p): p is string => !!p)
+  const profiles: ShellProfile[] = []
+  const seen = new Set<string>()
+  for (const shellPath of candidates) {
+    const name = path.basename(shellPath)
+    if (NON_INTERACTIVE_SHELLS.has(name)) continue
+    let realPath: string
+    try {
+      realPath = fs.realpathSync(shellPath)
+    } catch {
+      continue
+    }
+    // /bin and /usr/bin are often the same directory
+    if (seen.has(realPath)) continue
+    seen.add(realPath)
+    const taken = profiles.some(p => p.name === name)
+    profiles.push({ id: shellPath, name: taken ? `${name} (${shellPath})` : name, path: shellPath, args: [], env: {}, detected: true })
+  }
+  return profiles
+}
+
+// Shells installed on this machine, the first one is the system default
+export function detectShellProfiles(): ShellProfile[] {
+  return process.platform === 'win32' ? detectWindowsShells() : detectUnixShells()
+}
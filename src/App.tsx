@@ -1,16 +1,47 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useMemo } from 'react'
 import { workspaceStore } from './stores/workspace-store'
 import { settingsStore } from './stores/settings-store'
+import { shellProfileStore } from './stores/shell-profile-store'
+import { terminalOutput } from './stores/terminal-output'
+import { scrollbackStore } from './stores/scrollback-store'
+import { broadcastStore } from './stores/broadcast-store'
 import { Sidebar } from './components/Sidebar'
 import { WorkspaceView } from './components/WorkspaceView'
 import { SettingsPanel } from './components/SettingsPanel'
 import { AboutPanel } from './components/AboutPanel'
+import { ScrollbackMemoryPanel } from './components/ScrollbackMemoryPanel'
+import { WorkspaceSettingsPanel } from './components/WorkspaceSettingsPanel'
+import { WorktreeDialog } from './components/WorktreeDialog'
+import { GitChangesPanel } from './components/GitChangesPanel'
+import { BroadcastDialog } from './components/BroadcastDialog'
+import { useBroadcastTargets } from './components/BroadcastIndicator'
+import { GlobalSearchPanel } from './components/GlobalSearchPanel'
+import { ReplayPanel } from './components/ReplayPanel'
+import { CommandPalette } from './components/CommandPalette'
+import { commandRegistry } from './stores/command-registry'
+import { keybindingDispatcher } from './stores/keybinding-dispatcher'
+import type { KeybindingHandler } from './stores/keybinding-dispatcher'
+import { createAppCommandProvider } from './utils/app-commands'
+import { launchTerminal } from './utils/terminal-launcher'
+import { notifyAgentStateChange, updateBadgeCount } from './utils/agent-notifications'
 import type { AppState } from './types'
 
+// How often scrollback of busy terminals is flushed to disk
+const SCROLLBACK_SAVE_INTERVAL = 30 * 1000
+
 export default function App() {
   const [state, setState] = useState<AppState>(workspaceStore.getState())
   const [showSettings, setShowSettings] = useState(false)
   const [showAbout, setShowAbout] = useState(false)
+  const [showScrollbackMemory, setShowScrollbackMemory] = useState(false)
+  const [workspaceSettingsId, setWorkspaceSettingsId] = useState<string | null>(null)
+  const [worktreeDialogId, setWorktreeDialogId] = useState<string | null>(null)
+  const [showChanges, setShowChanges] = useState(false)
+  const [showBroadcast, setShowBroadcast] = useState(false)
+  const broadcastTargets = useBroadcastTargets()
+  const [showGlobalSearch, setShowGlobalSearch] = useState(false)
+  const [replay, setReplay] = useState<{ filePath: string; content: string } | null>(null)
+  const [showCommandPalette, setShowCommandPalette] = useState(false)
 
   useEffect(() => {
     const unsubscribe = workspaceStore.subscribe(() => {
@@ -19,18 +50,128 @@ export default function App() {
 
     // Global listener for all terminal output - updates activity for ALL terminals
     // This is needed because WorkspaceView only renders terminals for the active workspace
-    const unsubscribeOutput = window.electronAPI.pty.onOutput((id) => {
+    const unsubscribeOutput = terminalOutput.subscribe((id, data) => {
       workspaceStore.updateTerminalActivity(id)
+      scrollbackStore.append(id, data)
+    })
+
+    const unsubscribeCwd = window.electronAPI.pty.onCwdChanged((id, cwd) => {
+      workspaceStore.updateTerminalCwd(id, cwd)
+    })
+
+    const unsubscribeAgentState = window.electronAPI.pty.onAgentStateChanged((id, agentState) => {
+      notifyAgentStateChange(id, agentState)
+      workspaceStore.updateTerminalAgentState(id, agentState)
+      updateBadgeCount()
+    })
+
+    const unsubscribeExitStatus = window.electronAPI.pty.onExitStatusChanged((id, exitStatus) => {
+      workspaceStore.updateTerminalExitStatus(id, exitStatus)
+    })
+
+    const unsubscribeNotificationClick = window.electronAPI.notification.onClicked((id) => {
+      workspaceStore.showTerminal(id)
     })
 
-    // Load saved workspaces and settings on startup
-    workspaceStore.load()
-    settingsStore.load()
+    const unsubscribeSettings = settingsStore.subscribe(updateBadgeCount)
+
+    // Load settings first so restored terminals respawn with the configured shell
+    const loadState = async () => {
+      await settingsStore.load()
+      await shellProfileStore.load()
+      await workspaceStore.load()
+      const { workspaces, terminals } = workspaceStore.getState()
+      for (const terminal of terminals) {
+        const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+        if (workspace) {
+          await launchTerminal(terminal, workspace)
+        }
+        // Exits and restarts from before a reload
+        const exitStatus = await window.electronAPI.pty.getExitStatus(terminal.id)
+        if (exitStatus) {
+          workspaceStore.updateTerminalExitStatus(terminal.id, exitStatus)
+        }
+        // After a reload the agent may already be running, so no state change is sent
+        if (terminal.type === 'claude-code') {
+          const agentState = await window.electronAPI.pty.getAgentState(terminal.id)
+          if (agentState) {
+            workspaceStore.updateTerminalAgentState(terminal.id, agentState)
+          }
+        }
+      }
+    }
+    loadState()
+
+    const scrollbackInterval = setInterval(() => {
+      scrollbackStore.save()
+    }, SCROLLBACK_SAVE_INTERVAL)
+
+    // Persist terminals and scrollback before the window closes
+    const unsubscribeBeforeClose = window.electronAPI.app.onBeforeClose(async () => {
+      try {
+        await Promise.all([workspaceStore.save(), scrollbackStore.save()])
+      } finally {
+        window.electronAPI.app.closeReady()
+      }
+    })
 
     return () => {
       unsubscribe()
       unsubscribeOutput()
+      unsubscribeCwd()
+      unsubscribeAgentState()
+      unsubscribeExitStatus()
+      unsubscribeNotificationClick()
+      unsubscribeSettings()
+      unsubscribeBeforeClose()
+      clearInterval(scrollbackInterval)
+    }
+  }, [])
+
+  // App chrome follows the theme setting through CSS variables
+  useEffect(() => {
+    const applyTheme = () => {
+      document.documentElement.dataset.theme = settingsStore.getSettings().theme
     }
+    applyTheme()
+    return settingsStore.subscribe(applyTheme)
+  }, [])
+
+  // One capture listener dispatches every shortcut, before xterm sees the key
+  useEffect(() => {
+    window.addEventListener('keydown', keybindingDispatcher.handleKeyDown, true)
+    return () => window.removeEventListener('keydown', keybindingDispatcher.handleKeyDown, true)
+  }, [])
+
+  useEffect(() => {
+    const cycleWorkspace = (step: number) => {
+      const { workspaces, activeWorkspaceId } = workspaceStore.getState()
+      if (workspaces.length < 2) return false
+      const index = workspaces.findIndex(w => w.id === activeWorkspaceId)
+      workspaceStore.setActiveWorkspace(workspaces[(index + step + workspaces.length) % workspaces.length].id)
+    }
+    const focusTerminal = (n: number) => {
+      const { activeWorkspaceId } = workspaceStore.getState()
+      const terminal = activeWorkspaceId ? workspaceStore.getWorkspaceTerminals(activeWorkspaceId)[n - 1] : undefined
+      if (!terminal) return false
+      workspaceStore.showTerminal(terminal.id)
+    }
+
+    const handlers: Record<string, KeybindingHandler> = {
+      'commandPalette.open': () => setShowCommandPalette(true),
+      'search.global': () => setShowGlobalSearch(true),
+      'broadcast.open': () => setShowBroadcast(true),
+      'broadcast.stop': () => {
+        if (!broadcastStore.isActive()) return false
+        broadcastStore.stop()
+      },
+      'workspace.next': () => cycleWorkspace(1),
+      'workspace.previous': () => cycleWorkspace(-1)
+    }
+    for (let n = 1; n <= 9; n++) {
+      handlers[`terminal.focus${n}`] = () => focusTerminal(n)
+    }
+    return keybindingDispatcher.register(handlers)
   }, [])
 
   const handleAddWorkspace = useCallback(async () => {
@@ -42,7 +183,36 @@ export default function App() {
     }
   }, [])
 
+  const handleOpenReplay = useCallback(async () => {
+    const recording = await window.electronAPI.recording.open()
+    if (recording) {
+      setReplay(recording)
+    }
+  }, [])
+
+  useEffect(() => {
+    return commandRegistry.register(createAppCommandProvider({
+      openSettings: () => setShowSettings(true),
+      openAbout: () => setShowAbout(true),
+      openScrollbackMemory: () => setShowScrollbackMemory(true),
+      openGlobalSearch: () => setShowGlobalSearch(true),
+      openReplay: handleOpenReplay,
+      openWorkspaceSettings: (id) => setWorkspaceSettingsId(id),
+      openWorktree: (id) => setWorktreeDialogId(id),
+      toggleChangesPanel: () => setShowChanges(show => !show),
+      openBroadcast: () => setShowBroadcast(true),
+      addWorkspace: handleAddWorkspace
+    }))
+  }, [handleOpenReplay, handleAddWorkspace])
+
   const activeWorkspace = state.workspaces.find(w => w.id === state.activeWorkspaceId)
+  // Same array until the terminals change, so the view doesn't redo its work on unrelated updates
+  const activeTerminals = useMemo(
+    () => state.activeWorkspaceId ? workspaceStore.getWorkspaceTerminals(state.activeWorkspaceId) : [],
+    [state.terminals, state.activeWorkspaceId]
+  )
+  const settingsWorkspace = state.workspaces.find(w => w.id === workspaceSettingsId)
+  const worktreeWorkspace = state.workspaces.find(w => w.id === worktreeDialogId)
 
   return (
     <div className="app">
@@ -62,16 +232,35 @@ export default function App() {
         onSetWorkspaceRole={(id, role) => {
           workspaceStore.setWorkspaceRole(id, role)
         }}
+        onOpenWorkspaceSettings={(id) => setWorkspaceSettingsId(id)}
+        onOpenWorktree={(id) => setWorktreeDialogId(id)}
+        onOpenGlobalSearch={() => setShowGlobalSearch(true)}
+        onOpenReplay={handleOpenReplay}
         onOpenSettings={() => setShowSettings(true)}
         onOpenAbout={() => setShowAbout(true)}
       />
       <main className="main-content">
+        {broadcastTargets.size > 0 && (
+          <div className="broadcast-banner">
+            <span>⇶ Input typed into a marked terminal goes to all {broadcastTargets.size} of them</span>
+            <button className="broadcast-banner-stop" onClick={() => broadcastStore.stop()}>
+              Stop Broadcasting
+            </button>
+          </div>
+        )}
         {activeWorkspace ? (
-          <WorkspaceView
-            workspace={activeWorkspace}
-            terminals={workspaceStore.getWorkspaceTerminals(activeWorkspace.id)}
-            focusedTerminalId={state.focusedTerminalId}
-          />
+          <div className="workspace-area">
+            <WorkspaceView
+              workspace={activeWorkspace}
+              terminals={activeTerminals}
+              focusedTerminalId={state.focusedTerminalId}
+            />
+            <GitChangesPanel
+              workspace={activeWorkspace}
+              collapsed={!showChanges}
+              onToggle={() => setShowChanges(show => !show)}
+            />
+          </div>
         ) : (
           <div className="empty-state">
             <h2>Welcome to Better Agent Terminal</h2>
@@ -82,9 +271,40 @@ export default function App() {
       {showSettings && (
         <SettingsPanel onClose={() => setShowSettings(false)} />
       )}
+      {settingsWorkspace && (
+        <WorkspaceSettingsPanel
+          workspace={settingsWorkspace}
+          onClose={() => setWorkspaceSettingsId(null)}
+        />
+      )}
+      {worktreeWorkspace && (
+        <WorktreeDialog
+          workspace={worktreeWorkspace}
+          onClose={() => setWorktreeDialogId(null)}
+        />
+      )}
+      {showBroadcast && (
+        <BroadcastDialog onClose={() => setShowBroadcast(false)} />
+      )}
+      {showGlobalSearch && (
+        <GlobalSearchPanel onClose={() => setShowGlobalSearch(false)} />
+      )}
+      {replay && (
+        <ReplayPanel
+          filePath={replay.filePath}
+          content={replay.content}
+          onClose={() => setReplay(null)}
+        />
+      )}
+      {showCommandPalette && (
+        <CommandPalette onClose={() => setShowCommandPalette(false)} />
+      )}
       {showAbout && (
         <AboutPanel onClose={() => setShowAbout(false)} />
       )}
+      {showScrollbackMemory && (
+        <ScrollbackMemoryPanel onClose={() => setShowScrollbackMemory(false)} />
+      )}
     </div>
   )
 }
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react'
+import type { AgentState } from '../types'
 import { workspaceStore } from '../stores/workspace-store'
 
 interface ActivityIndicatorProps {
@@ -6,15 +7,25 @@ interface ActivityIndicatorProps {
   workspaceId?: string
   terminalId?: string
   size?: 'small' | 'medium'
+  showLabel?: boolean
+}
+
+export const AGENT_STATE_LABELS: Record<AgentState, string> = {
+  'working': 'Working',
+  'waiting-for-input': 'Needs input',
+  'idle': 'Idle',
+  'exited': 'Exited'
 }
 
 export function ActivityIndicator({
   lastActivityTime: propActivityTime,
   workspaceId,
   terminalId,
-  size = 'small'
+  size = 'small',
+  showLabel = false
 }: ActivityIndicatorProps) {
   const [isActive, setIsActive] = useState(false)
+  const [agentState, setAgentState] = useState<AgentState | null>(null)
 
   useEffect(() => {
     const checkActivity = () => {
@@ -23,8 +34,10 @@ export function ActivityIndicator({
       if (terminalId) {
         const terminal = workspaceStore.getState().terminals.find(t => t.id === terminalId)
         lastActivityTime = terminal?.lastActivityTime ?? null
+        setAgentState(terminal?.agentState ?? null)
       } else if (workspaceId) {
         lastActivityTime = workspaceStore.getWorkspaceLastActivity(workspaceId)
+        setAgentState(workspaceStore.getWorkspaceAgentState(workspaceId))
       }
 
       if (!lastActivityTime) {
@@ -39,13 +52,28 @@ export function ActivityIndicator({
 
     checkActivity()
 
-    // Check every 1 second
+    // Check every 1 second, agent state changes are picked up right away
     const interval = setInterval(checkActivity, 1000)
+    const unsubscribe = workspaceStore.subscribe(checkActivity)
 
-    return () => clearInterval(interval)
+    return () => {
+      clearInterval(interval)
+      unsubscribe()
+    }
   }, [propActivityTime, workspaceId, terminalId])
 
+  // Agents report what they are doing, plain terminals only whether there was output
+  if (agentState) {
+    const label = AGENT_STATE_LABELS[agentState]
+    return (
+      <div className="agent-state" title={label}>
+        <div className={`activity-indicator ${size} agent-${agentState}`} />
+        {showLabel && <span className={`agent-state-label agent-${agentState}`}>{label}</span>}
+      </div>
+    )
+  }
+
   const className = `activity-indicator ${size} ${isActive ? 'active' : 'inactive'}`
 
   return <div className={className} />
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react'
+import type { AgentCommand } from '../types'
+import { parseArgs, formatArgs } from '../utils/command-args'
+import { EnvVarsEditor } from './EnvVarsEditor'
+
+interface AgentCommandEditorProps {
+  value: AgentCommand
+  onChange: (value: AgentCommand) => void
+}
+
+export function AgentCommandEditor({ value, onChange }: AgentCommandEditorProps) {
+  const [argsText, setArgsText] = useState(formatArgs(value.args))
+
+  // Keep local text in sync when the command is replaced from outside
+  useEffect(() => {
+    setArgsText(formatArgs(value.args))
+  }, [value.args])
+
+  return (
+    <>
+      <div className="settings-group">
+        <label>Command</label>
+        <input
+          type="text"
+          value={value.command}
+          onChange={e => onChange({ ...value, command: e.target.value })}
+          placeholder="claude"
+        />
+      </div>
+      <div className="settings-group">
+        <label>Arguments</label>
+        <input
+          type="text"
+          value={argsText}
+          onChange={e => setArgsText(e.target.value)}
+          onBlur={() => onChange({ ...value, args: parseArgs(argsText) })}
+          placeholder="--model sonnet"
+        />
+      </div>
+      <div className="settings-group">
+        <label>Environment Variables</label>
+        <EnvVarsEditor
+          value={value.env}
+          onChange={env => onChange({ ...value, env })}
+        />
+      </div>
+    </>
+  )
+}
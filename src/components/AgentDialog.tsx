@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import type { AgentCommand, TerminalInstance, Workspace } from '../types'
+import { settingsStore } from '../stores/settings-store'
+import { AgentCommandEditor } from './AgentCommandEditor'
+
+interface AgentDialogProps {
+  workspace: Workspace
+  agent?: TerminalInstance // Edited agent, a new one is created without it
+  onSave: (title: string, agentCommand: AgentCommand | undefined) => void
+  onCancel: () => void
+}
+
+// Name and launch command of one of the workspace's agents
+export function AgentDialog({ workspace, agent, onSave, onCancel }: AgentDialogProps) {
+  const [title, setTitle] = useState(agent?.title ?? '')
+  const [agentCommand, setAgentCommand] = useState<AgentCommand | undefined>(agent?.agentCommand)
+
+  const handleOverrideToggle = (override: boolean) => {
+    const inherited = workspace.agentCommand ?? settingsStore.getSettings().agentCommand
+    setAgentCommand(override ? { ...inherited } : undefined)
+  }
+
+  return (
+    <div className="dialog-overlay" onClick={onCancel}>
+      <div className="dialog agent-dialog" onClick={e => e.stopPropagation()}>
+        <h3>{agent ? 'Edit Agent' : 'New Agent'}</h3>
+        <div className="settings-group">
+          <label>Name</label>
+          <input
+            type="text"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && onSave(title, agentCommand)}
+            placeholder="planner"
+            autoFocus
+          />
+        </div>
+        <div className="settings-group">
+          <label className="settings-checkbox">
+            <input
+              type="checkbox"
+              checked={!!agentCommand}
+              onChange={e => handleOverrideToggle(e.target.checked)}
+            />
+            Own launch command
+          </label>
+        </div>
+        {agentCommand && (
+          <AgentCommandEditor value={agentCommand} onChange={setAgentCommand} />
+        )}
+        {agent && (
+          <p className="settings-note">A changed command applies when the agent restarts.</p>
+        )}
+        <div className="dialog-actions">
+          <button className="dialog-btn cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="dialog-btn primary" onClick={() => onSave(title, agentCommand)}>
+            {agent ? 'Save' : 'Start Agent'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import type { BroadcastScope } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { broadcastStore, resolveBroadcastTargets } from '../stores/broadcast-store'
+
+interface BroadcastDialogProps {
+  onClose: () => void
+}
+
+type BroadcastMode = 'command' | 'keystrokes'
+
+// More targets than this ask for confirmation first
+const CONFIRM_THRESHOLD = 3
+
+// Picks the terminals to broadcast to, then sends one command line or starts mirroring keystrokes
+export function BroadcastDialog({ onClose }: BroadcastDialogProps) {
+  const { workspaces, activeWorkspaceId } = workspaceStore.getState()
+  const roles = [...new Set(workspaces.map(w => w.role).filter((role): role is string => !!role))]
+
+  const [scopeType, setScopeType] = useState<BroadcastScope['type']>(activeWorkspaceId ? 'workspace' : 'all')
+  const [role, setRole] = useState(roles[0] ?? '')
+  const [includeAgents, setIncludeAgents] = useState(false)
+  const [mode, setMode] = useState<BroadcastMode>('command')
+  const [command, setCommand] = useState('')
+  const [confirming, setConfirming] = useState(false)
+
+  const scope: BroadcastScope = scopeType === 'workspace'
+    ? { type: 'workspace', workspaceId: activeWorkspaceId ?? '' }
+    : scopeType === 'role' ? { type: 'role', role } : { type: 'all' }
+  const targets = resolveBroadcastTargets(scope, includeAgents)
+  const workspaceCount = new Set(targets.map(t => t.workspaceId)).size
+  const canSend = targets.length > 0 && (mode === 'keystrokes' || command.trim() !== '')
+
+  const handleSend = () => {
+    if (!canSend) return
+    if (targets.length > CONFIRM_THRESHOLD && !confirming) {
+      setConfirming(true)
+      return
+    }
+    const ids = targets.map(t => t.id)
+    if (mode === 'keystrokes') {
+      broadcastStore.start(ids)
+    } else {
+      broadcastStore.sendCommand(ids, command)
+    }
+    onClose()
+  }
+
+  const summary = `${targets.length} terminal${targets.length === 1 ? '' : 's'} in ${workspaceCount} workspace${workspaceCount === 1 ? '' : 's'}`
+
+  if (confirming) {
+    return (
+      <div className="dialog-overlay" onClick={onClose}>
+        <div className="dialog broadcast-dialog" onClick={e => e.stopPropagation()}>
+          <h3>Broadcast to {summary}?</h3>
+          <p>
+            {mode === 'command'
+              ? <>Every one of them will run <code>{command}</code>.</>
+              : 'Everything typed into one of them will be typed into all of them until broadcasting is stopped.'}
+          </p>
+          <div className="dialog-actions">
+            <button className="dialog-btn cancel" onClick={() => setConfirming(false)}>
+              Back
+            </button>
+            <button className="dialog-btn confirm" onClick={handleSend}>
+              {mode === 'command' ? 'Run Everywhere' : 'Start Broadcasting'}
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog broadcast-dialog" onClick={e => e.stopPropagation()}>
+        <h3>Broadcast Input</h3>
+        <div className="settings-group">
+          <label>Send to</label>
+          <select value={scopeType} onChange={e => setScopeType(e.target.value as BroadcastScope['type'])}>
+            {activeWorkspaceId && <option value="workspace">Terminals of this workspace</option>}
+            <option value="all">Terminals of all workspaces</option>
+            {roles.length > 0 && <option value="role">Terminals of workspaces with a role</option>}
+          </select>
+        </div>
+        {scopeType === 'role' && (
+          <div className="settings-group">
+            <label>Role</label>
+            <select value={role} onChange={e => setRole(e.target.value)}>
+              {roles.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="settings-group">
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={includeAgents} onChange={e => setIncludeAgents(e.target.checked)} />
+            Include agent terminals
+          </label>
+        </div>
+        <div className="broadcast-modes">
+          <label>
+            <input type="radio" checked={mode === 'command'} onChange={() => setMode('command')} />
+            Run one command line
+          </label>
+          <label>
+            <input type="radio" checked={mode === 'keystrokes'} onChange={() => setMode('keystrokes')} />
+            Mirror keystrokes until stopped
+          </label>
+        </div>
+        {mode === 'command' && (
+          <div className="settings-group">
+            <input
+              type="text"
+              value={command}
+              onChange={e => setCommand(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleSend()}
+              placeholder="git pull"
+              autoFocus
+            />
+          </div>
+        )}
+        <div className="broadcast-targets">
+          <div className="broadcast-targets-summary">{targets.length > 0 ? summary : 'No matching terminals'}</div>
+          {targets.map(terminal => {
+            const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+            return (
+              <div key={terminal.id} className="broadcast-target">
+                {workspace ? `${workspace.alias || workspace.name} › ` : ''}{terminal.alias || terminal.title}
+              </div>
+            )
+          })}
+        </div>
+        <div className="dialog-actions">
+          <button className="dialog-btn cancel" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="dialog-btn primary" disabled={!canSend} onClick={handleSend}>
+            {mode === 'command' ? 'Run' : 'Start Broadcasting'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
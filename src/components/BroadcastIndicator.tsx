@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import { broadcastStore } from '../stores/broadcast-store'
+
+// Terminals currently receiving broadcast input, kept current while mounted
+export function useBroadcastTargets(): Set<string> {
+  const [targetIds, setTargetIds] = useState(() => new Set(broadcastStore.getTargetIds()))
+
+  useEffect(() => {
+    return broadcastStore.subscribe(() => {
+      setTargetIds(new Set(broadcastStore.getTargetIds()))
+    })
+  }, [])
+
+  return targetIds
+}
+
+interface BroadcastIndicatorProps {
+  count: number
+}
+
+export function BroadcastIndicator({ count }: BroadcastIndicatorProps) {
+  return (
+    <span className="broadcast-indicator" title={`Input typed here goes to ${count} terminals`}>
+      ⇶ Broadcast
+    </span>
+  )
+}
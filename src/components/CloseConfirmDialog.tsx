@@ -1,15 +1,16 @@
 interface CloseConfirmDialogProps {
+  agentName: string
   onConfirm: () => void
   onCancel: () => void
 }
 
-export function CloseConfirmDialog({ onConfirm, onCancel }: CloseConfirmDialogProps) {
+export function CloseConfirmDialog({ agentName, onConfirm, onCancel }: CloseConfirmDialogProps) {
   return (
     <div className="dialog-overlay" onClick={onCancel}>
       <div className="dialog" onClick={e => e.stopPropagation()}>
-        <h3>Close Claude Code?</h3>
+        <h3>Close {agentName}?</h3>
         <p>
-          Are you sure you want to close the Claude Code terminal?
+          Are you sure you want to close the agent terminal "{agentName}"?
           Any running process will be terminated.
         </p>
         <div className="dialog-actions">
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { commandRegistry } from '../stores/command-registry'
+import type { Command } from '../stores/command-registry'
+import { keybindingDispatcher } from '../stores/keybinding-dispatcher'
+import { fuzzyMatch } from '../utils/fuzzy-match'
+import { formatChord } from '../utils/keybindings'
+
+interface CommandPaletteProps {
+  onClose: () => void
+}
+
+interface CommandMatch {
+  command: Command
+  score: number
+  indices: number[]
+}
+
+function HighlightedText({ text, indices }: { text: string; indices: number[] }) {
+  const matched = new Set(indices)
+  return (
+    <>
+      {text.split('').map((char, index) =>
+        matched.has(index) ? <mark key={index}>{char}</mark> : char
+      )}
+    </>
+  )
+}
+
+export function CommandPalette({ onClose }: CommandPaletteProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  const [query, setQuery] = useState('')
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  // Snapshot of the commands available when the palette was opened
+  const commands = useMemo(() => commandRegistry.getCommands(), [])
+
+  const matches = useMemo((): CommandMatch[] => {
+    const results: CommandMatch[] = []
+    for (const command of commands) {
+      const label = `${command.category}: ${command.title}`
+      const match = fuzzyMatch(query, command.detail ? `${label} ${command.detail}` : label)
+      if (match) {
+        results.push({ command, score: match.score, indices: match.indices })
+      }
+    }
+    // Stable sort keeps registration order for equal scores
+    return query ? results.sort((a, b) => b.score - a.score) : results
+  }, [commands, query])
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [matches])
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [selectedIndex])
+
+  const runCommand = (command: Command) => {
+    onClose()
+    command.run()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setSelectedIndex(Math.min(selectedIndex + 1, matches.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelectedIndex(Math.max(selectedIndex - 1, 0))
+    } else if (e.key === 'Enter' && matches[selectedIndex]) {
+      e.preventDefault()
+      runCommand(matches[selectedIndex].command)
+    } else if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  return (
+    <div className="command-palette-overlay" onClick={onClose}>
+      <div className="command-palette" onClick={e => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command, workspace or terminal"
+        />
+        <div className="command-palette-list" ref={listRef}>
+          {matches.map(({ command, indices }, index) => {
+            const labelLength = command.category.length + 2 + command.title.length
+            const chord = keybindingDispatcher.getChord(command.id)
+            return (
+              <div
+                key={command.id}
+                className={`command-palette-item ${index === selectedIndex ? 'selected' : ''}`}
+                onClick={() => runCommand(command)}
+                onMouseEnter={() => setSelectedIndex(index)}
+              >
+                <span className="command-palette-label">
+                  <HighlightedText
+                    text={`${command.category}: ${command.title}`}
+                    indices={indices.filter(i => i < labelLength)}
+                  />
+                  {command.detail && (
+                    <span className="command-palette-detail">
+                      <HighlightedText
+                        text={command.detail}
+                        indices={indices.filter(i => i > labelLength).map(i => i - labelLength - 1)}
+                      />
+                    </span>
+                  )}
+                </span>
+                {chord && <kbd>{formatChord(chord)}</kbd>}
+              </div>
+            )
+          })}
+          {matches.length === 0 && (
+            <div className="command-palette-empty">No matching commands</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react'
+
+interface EnvVarsEditorProps {
+  value: Record<string, string>
+  onChange: (value: Record<string, string>) => void
+}
+
+interface EnvRow {
+  key: string
+  value: string
+}
+
+// Values of these variables are hidden until revealed
+const SECRET_KEY_PATTERN = /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|ACCESS_?KEY|AUTH/i
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key)
+}
+
+export const MASKED_VALUE = '••••••••'
+
+function toRows(env: Record<string, string>): EnvRow[] {
+  return Object.entries(env).map(([key, value]) => ({ key, value }))
+}
+
+function toEnv(rows: EnvRow[]): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const { key, value } of rows) {
+    if (key.trim()) {
+      env[key.trim()] = value
+    }
+  }
+  return env
+}
+
+// KEY / value rows, secret-looking values are masked
+export function EnvVarsEditor({ value, onChange }: EnvVarsEditorProps) {
+  const [rows, setRows] = useState<EnvRow[]>(toRows(value))
+  const [revealed, setRevealed] = useState<Set<number>>(new Set())
+
+  // Keep local rows in sync when the variables are replaced from outside
+  const serialized = JSON.stringify(value)
+  useEffect(() => {
+    if (JSON.stringify(toEnv(rows)) !== serialized) {
+      setRows(toRows(value))
+    }
+  }, [serialized])
+
+  const updateRow = (index: number, row: EnvRow) => {
+    setRows(rows.map((r, i) => i === index ? row : r))
+  }
+
+  const removeRow = (index: number) => {
+    const nextRows = rows.filter((_, i) => i !== index)
+    setRows(nextRows)
+    setRevealed(new Set())
+    onChange(toEnv(nextRows))
+  }
+
+  const toggleReveal = (index: number) => {
+    const next = new Set(revealed)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setRevealed(next)
+  }
+
+  return (
+    <div className="env-editor">
+      {rows.map((row, index) => {
+        const secret = isSecretKey(row.key)
+        return (
+          <div key={index} className="env-edit-row">
+            <input
+              type="text"
+              value={row.key}
+              onChange={e => updateRow(index, { ...row, key: e.target.value })}
+              onBlur={() => onChange(toEnv(rows))}
+              placeholder="KEY"
+            />
+            <input
+              type={secret && !revealed.has(index) ? 'password' : 'text'}
+              value={row.value}
+              onChange={e => updateRow(index, { ...row, value: e.target.value })}
+              onBlur={() => onChange(toEnv(rows))}
+              placeholder="value"
+            />
+            {secret && (
+              <button
+                className="settings-icon-btn"
+                onClick={() => toggleReveal(index)}
+                title={revealed.has(index) ? 'Hide value' : 'Show value'}
+              >
+                {revealed.has(index) ? '◌' : '👁'}
+              </button>
+            )}
+            <button className="settings-icon-btn" onClick={() => removeRow(index)} title="Remove variable">
+              ×
+            </button>
+          </div>
+        )
+      })}
+      <button className="settings-action-btn settings-add-btn" onClick={() => setRows([...rows, { key: '', value: '' }])}>
+        Add Variable
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react'
+import type { Workspace } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { EnvVarsEditor, isSecretKey, MASKED_VALUE } from './EnvVarsEditor'
+
+interface EnvironmentEditorProps {
+  workspace: Workspace
+}
+
+// .env files and variable overrides of a workspace
+export function EnvironmentEditor({ workspace }: EnvironmentEditorProps) {
+  const envFiles = workspace.envFiles ?? []
+  const env = workspace.env ?? {}
+  const [filesText, setFilesText] = useState(envFiles.join('\n'))
+  const [revealed, setRevealed] = useState<Set<string>>(new Set())
+  const [preview, setPreview] = useState<{ env: Record<string, string>; errors: string[] } | null>(null)
+
+  // Show what the .env files currently provide
+  useEffect(() => {
+    if (envFiles.length === 0) {
+      setPreview(null)
+      return
+    }
+    let cancelled = false
+    window.electronAPI.workspace.loadEnvFiles(workspace.folderPath, envFiles).then(result => {
+      if (!cancelled) setPreview(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspace.folderPath, envFiles.join('\n')])
+
+  const handleFilesBlur = () => {
+    const files = filesText.split('\n').map(line => line.trim()).filter(Boolean)
+    workspaceStore.setWorkspaceEnvironment(workspace.id, files, env)
+  }
+
+  const toggleReveal = (key: string) => {
+    const next = new Set(revealed)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setRevealed(next)
+  }
+
+  return (
+    <>
+      <div className="settings-group">
+        <label>.env Files</label>
+        <textarea
+          value={filesText}
+          onChange={e => setFilesText(e.target.value)}
+          onBlur={handleFilesBlur}
+          placeholder={'.env\n.env.local'}
+          rows={2}
+        />
+        <p className="settings-note">One path per line, relative to the workspace folder. Later files override earlier ones.</p>
+        {preview?.errors.map(error => (
+          <p key={error} className="settings-error">Could not load {error}</p>
+        ))}
+        {preview && Object.keys(preview.env).length > 0 && (
+          <div className="env-preview">
+            {Object.entries(preview.env).map(([key, value]) => {
+              const masked = isSecretKey(key) && !revealed.has(key)
+              return (
+                <div key={key} className="env-row">
+                  <span className="env-key">{key}</span>
+                  <span className={`env-value ${masked ? 'masked' : ''}`}>{masked ? MASKED_VALUE : value}</span>
+                  {isSecretKey(key) && (
+                    <button className="settings-icon-btn" onClick={() => toggleReveal(key)} title={masked ? 'Show value' : 'Hide value'}>
+                      {masked ? '👁' : '◌'}
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="settings-group">
+        <label>Variables</label>
+        <EnvVarsEditor
+          value={env}
+          onChange={value => workspaceStore.setWorkspaceEnvironment(workspace.id, envFiles, value)}
+        />
+        <p className="settings-note">Applied after the .env files and before shell profile and agent variables. Restart terminals to apply changes.</p>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+import type { TerminalInstance, RestartPolicy } from '../types'
+import { getRestartPolicy } from '../utils/terminal-launcher'
+
+interface ExitStatusBadgeProps {
+  terminal: TerminalInstance
+  // Makes the badge open the exit history and policy menu
+  onPolicyChange?: (policy: RestartPolicy) => void
+}
+
+export const RESTART_POLICY_LABELS: Record<RestartPolicy, string> = {
+  'never': 'Never',
+  'on-failure': 'On failure',
+  'always': 'Always'
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString()
+}
+
+// Last exit code and restart count, hidden until the terminal exited or has a policy
+export function ExitStatusBadge({ terminal, onPolicyChange }: ExitStatusBadgeProps) {
+  const [menu, setMenu] = useState<{ top: number; right: number } | null>(null)
+  const policy = getRestartPolicy(terminal)
+  const status = terminal.exitStatus
+  const history = status?.history ?? []
+  const last = history[history.length - 1]
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!menu) return
+    const handleClickOutside = () => setMenu(null)
+    document.addEventListener('click', handleClickOutside)
+    return () => document.removeEventListener('click', handleClickOutside)
+  }, [menu])
+
+  if (!last && policy === 'never') return null
+
+  let label = '↻'
+  let state = 'idle'
+  let title = `Restart policy: ${RESTART_POLICY_LABELS[policy]}`
+  if (status?.restartAt) {
+    label = '↻ restarting'
+    state = 'restarting'
+    title = `Exited with code ${last?.exitCode}, restarting at ${formatTime(status.restartAt)}`
+  } else if (last && !status?.running) {
+    label = `exit ${last.exitCode}`
+    state = last.exitCode === 0 ? 'success' : 'failure'
+    title = `Exited with code ${last.exitCode} at ${formatTime(last.exitedAt)}`
+  } else if (last) {
+    label = `↻ ${history.length}`
+    state = last.exitCode === 0 ? 'success' : 'failure'
+    title = `Restarted ${history.length} time${history.length === 1 ? '' : 's'}, last exit code ${last.exitCode}`
+  }
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!onPolicyChange) return
+    e.stopPropagation()
+    const rect = e.currentTarget.getBoundingClientRect()
+    setMenu(menu ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right })
+  }
+
+  return (
+    <>
+      <span
+        className={`exit-status-badge ${state} ${onPolicyChange ? 'interactive' : ''}`}
+        onClick={handleClick}
+        title={title}
+      >
+        {label}
+      </span>
+      {menu && onPolicyChange && (
+        <div
+          className="context-menu exit-status-menu"
+          style={{ position: 'fixed', top: menu.top, right: menu.right, zIndex: 1000 }}
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="exit-status-menu-title">Restart policy</div>
+          {(Object.keys(RESTART_POLICY_LABELS) as RestartPolicy[]).map(option => (
+            <button
+              key={option}
+              className={`context-menu-item ${option === policy ? 'selected' : ''}`}
+              onClick={() => onPolicyChange(option)}
+            >
+              {RESTART_POLICY_LABELS[option]}
+            </button>
+          ))}
+          <div className="exit-status-menu-title">Exit history</div>
+          {history.length === 0 ? (
+            <div className="exit-history-empty">No exits yet</div>
+          ) : (
+            <div className="exit-history">
+              {[...history].reverse().map(record => (
+                <div key={record.exitedAt} className="exit-history-row">
+                  <span className={record.exitCode === 0 ? 'success' : 'failure'}>{record.exitCode}</span>
+                  <span>{formatTime(record.exitedAt)}</span>
+                  <span>{record.restartedAt ? `↻ ${formatTime(record.restartedAt)}` : ''}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { EXPORT_FORMATS } from '../utils/terminal-export'
+import type { ExportFormat, ExportScope } from '../utils/terminal-export'
+
+interface ExportOutputDialogProps {
+  hasSelection: boolean
+  onExport: (format: ExportFormat, scope: ExportScope) => void
+  onCancel: () => void
+}
+
+export function ExportOutputDialog({ hasSelection, onExport, onCancel }: ExportOutputDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('text')
+  const [scope, setScope] = useState<ExportScope>(hasSelection ? 'selection' : 'all')
+
+  return (
+    <div className="dialog-overlay" onClick={onCancel}>
+      <div className="dialog export-dialog" onClick={e => e.stopPropagation()}>
+        <h3>Export Output</h3>
+        <div className="export-options">
+          <label>
+            <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+            Full buffer
+          </label>
+          <label className={hasSelection ? '' : 'disabled'}>
+            <input
+              type="radio"
+              checked={scope === 'selection'}
+              disabled={!hasSelection}
+              onChange={() => setScope('selection')}
+            />
+            Selection only
+          </label>
+        </div>
+        <div className="export-options">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+            <label key={key}>
+              <input type="radio" checked={format === key} onChange={() => setFormat(key)} />
+              {EXPORT_FORMATS[key].label}
+            </label>
+          ))}
+        </div>
+        <div className="dialog-actions">
+          <button className="dialog-btn cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="dialog-btn primary" onClick={() => onExport(format, scope)}>
+            Export…
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
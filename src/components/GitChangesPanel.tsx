@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import type { Workspace, GitFileChange } from '../types'
+import { gitStatusStore } from '../stores/git-status-store'
+import { useGitStatus } from './GitStatusBadge'
+import { GitDiffViewer } from './GitDiffViewer'
+
+interface GitChangesPanelProps {
+  workspace: Workspace
+  collapsed: boolean
+  onToggle: () => void
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  M: 'Modified',
+  A: 'Added',
+  D: 'Deleted',
+  R: 'Renamed',
+  C: 'Copied',
+  U: 'Conflict',
+  T: 'Type changed',
+  '?': 'Untracked'
+}
+
+// Staged letter unless only the working tree changed
+function getChangeCode(file: GitFileChange): string {
+  if (file.index === 'U' || file.worktree === 'U') return 'U'
+  return file.index !== ' ' ? file.index : file.worktree
+}
+
+function splitPath(filePath: string): { name: string; dir: string } {
+  const index = filePath.lastIndexOf('/')
+  return index === -1
+    ? { name: filePath, dir: '' }
+    : { name: filePath.slice(index + 1), dir: filePath.slice(0, index) }
+}
+
+// Changed files of the workspace, collapsed to a strip at the right of the terminals
+export function GitChangesPanel({ workspace, collapsed, onToggle }: GitChangesPanelProps) {
+  const status = useGitStatus(workspace)
+  const [diffFile, setDiffFile] = useState<GitFileChange | null>(null)
+  const files = status?.files ?? []
+
+  if (collapsed) {
+    return (
+      <aside className="git-changes-panel collapsed">
+        <button className="git-changes-toggle" onClick={onToggle} title="Show changed files">
+          <span>⎇</span>
+          {files.length > 0 && <span className="git-changes-count">{files.length}</span>}
+        </button>
+      </aside>
+    )
+  }
+
+  return (
+    <aside className="git-changes-panel">
+      <div className="git-changes-header">
+        <span>Changes{files.length > 0 ? ` (${files.length})` : ''}</span>
+        <div className="git-changes-actions">
+          <button className="action-btn" onClick={() => gitStatusStore.refresh(workspace.folderPath)} title="Refresh">
+            ⟳
+          </button>
+          <button className="action-btn" onClick={onToggle} title="Hide changed files">
+            ›
+          </button>
+        </div>
+      </div>
+      {status && (
+        <div className="git-changes-branch" title={status.compareRef ?? undefined}>
+          ⎇ {status.branch ?? 'detached HEAD'}
+          {status.ahead > 0 && <span className="git-status-ahead"> ↑{status.ahead}</span>}
+          {status.behind > 0 && <span className="git-status-behind"> ↓{status.behind}</span>}
+        </div>
+      )}
+      <div className="git-changes-list">
+        {status === null && <div className="git-changes-empty">Not a git repository</div>}
+        {status && files.length === 0 && <div className="git-changes-empty">No changes</div>}
+        {files.map(file => {
+          const code = getChangeCode(file)
+          const { name, dir } = splitPath(file.path)
+          return (
+            <button
+              key={file.path}
+              className={`git-change ${diffFile?.path === file.path ? 'selected' : ''}`}
+              onClick={() => setDiffFile(file)}
+              title={file.origPath ? `${file.origPath} → ${file.path}` : file.path}
+            >
+              <span className={`git-change-code code-${code === '?' ? 'untracked' : code}`} title={CHANGE_LABELS[code]}>
+                {code}
+              </span>
+              <span className="git-change-name">{name}</span>
+              <span className="git-change-dir">{dir}</span>
+            </button>
+          )
+        })}
+      </div>
+      {diffFile && (
+        <GitDiffViewer
+          folderPath={workspace.folderPath}
+          file={diffFile}
+          onClose={() => setDiffFile(null)}
+        />
+      )}
+    </aside>
+  )
+}
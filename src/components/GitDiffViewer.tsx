@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { GitFileChange } from '../types'
+
+interface GitDiffViewerProps {
+  folderPath: string
+  file: GitFileChange
+  onClose: () => void
+}
+
+// Longer diffs are cut, rendering every line of a generated file freezes the window
+const MAX_DIFF_LINES = 5000
+
+function getLineClass(line: string): string {
+  if (line.startsWith('@@')) return 'hunk'
+  if (/^(diff |index |--- |\+\+\+ |new file|deleted file|similarity|rename |old mode|new mode|Binary files)/.test(line)) return 'meta'
+  if (line.startsWith('+')) return 'added'
+  if (line.startsWith('-')) return 'removed'
+  return ''
+}
+
+// Diff of one changed file against HEAD
+export function GitDiffViewer({ folderPath, file, onClose }: GitDiffViewerProps) {
+  const [diff, setDiff] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(() => {
+    setError(null)
+    window.electronAPI.git.getDiff(folderPath, file)
+      .then(setDiff)
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)))
+  }, [folderPath, file])
+
+  useEffect(() => {
+    setDiff(null)
+    load()
+  }, [load])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const lines = diff ? diff.replace(/\n$/, '').split('\n') : []
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel git-diff-panel" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2 title={file.path}>{file.origPath ? `${file.origPath} → ${file.path}` : file.path}</h2>
+          <div className="git-diff-actions">
+            <button className="action-btn" onClick={load} title="Reload diff">⟳</button>
+            <button className="close-btn" onClick={onClose}>×</button>
+          </div>
+        </div>
+        <div className="git-diff-content">
+          {error && <p className="settings-error">{error}</p>}
+          {!error && diff === null && <p className="settings-note">Loading…</p>}
+          {!error && diff !== null && lines.length === 0 && (
+            <p className="settings-note">No textual changes, only the file mode or an empty file changed.</p>
+          )}
+          {lines.length > 0 && (
+            <pre className="git-diff">
+              {lines.slice(0, MAX_DIFF_LINES).map((line, index) => (
+                <div key={index} className={`git-diff-line ${getLineClass(line)}`}>{line || ' '}</div>
+              ))}
+              {lines.length > MAX_DIFF_LINES && (
+                <div className="git-diff-line meta">… {lines.length - MAX_DIFF_LINES} more lines</div>
+              )}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import type { Workspace, GitStatus } from '../types'
+import { gitStatusStore } from '../stores/git-status-store'
+
+// Git status of a workspace folder, kept current while mounted. Worktree workspaces
+// count ahead/behind against the branch they were created from, others against the upstream.
+// Undefined until the first check, null when the folder is not a git checkout.
+export function useGitStatus(workspace: Workspace): GitStatus | null | undefined {
+  const { folderPath } = workspace
+  const compareRef = workspace.worktree?.baseBranch
+  const [status, setStatus] = useState(() => gitStatusStore.getStatus(folderPath))
+
+  useEffect(() => {
+    const unwatch = gitStatusStore.watch(folderPath, compareRef)
+    setStatus(gitStatusStore.getStatus(folderPath))
+    const unsubscribe = gitStatusStore.subscribe(() => {
+      setStatus(gitStatusStore.getStatus(folderPath))
+    })
+    return () => {
+      unsubscribe()
+      unwatch()
+    }
+  }, [folderPath, compareRef])
+
+  return status
+}
+
+interface GitStatusBadgeProps {
+  workspace: Workspace
+}
+
+export function GitStatusBadge({ workspace }: GitStatusBadgeProps) {
+  const status = useGitStatus(workspace)
+  const missingWorktree = status === null && !!workspace.worktree
+  if (!status && !missingWorktree) return null
+
+  const branch = status?.branch ?? (status ? 'detached' : workspace.worktree?.branch)
+  const dirty = status?.files.length ?? 0
+  const title = status
+    ? [
+        branch,
+        status.compareRef ? `${status.ahead} ahead and ${status.behind} behind ${status.compareRef}` : 'no upstream',
+        `${dirty} changed files`
+      ].join(', ')
+    : `${branch}: worktree not found`
+
+  return (
+    <span className={`git-status ${missingWorktree ? 'missing' : ''}`} title={title}>
+      <span className="git-status-branch">⎇ {branch}</span>
+      {status && status.ahead > 0 && <span className="git-status-ahead">↑{status.ahead}</span>}
+      {status && status.behind > 0 && <span className="git-status-behind">↓{status.behind}</span>}
+      {dirty > 0 && <span className="git-status-dirty">●{dirty}</span>}
+    </span>
+  )
+}
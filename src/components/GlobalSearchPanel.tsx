@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { workspaceStore } from '../stores/workspace-store'
+import { terminalRegistry } from '../stores/terminal-registry'
+import { scrollbackStore } from '../stores/scrollback-store'
+
+interface GlobalSearchPanelProps {
+  onClose: () => void
+}
+
+interface TerminalLines {
+  terminalId: string
+  workspaceLabel: string
+  terminalTitle: string
+  lines: string[]
+}
+
+interface SearchHit {
+  terminalId: string
+  workspaceLabel: string
+  terminalTitle: string
+  lineIndex: number
+  linesFromEnd: number
+  line: string
+  before: string
+  after: string
+  matchStart: number
+  matchText: string
+}
+
+const MAX_HITS = 500
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Snapshot of the plain-text output of every terminal in every workspace
+function collectTerminalLines(): TerminalLines[] {
+  const { workspaces, terminals } = workspaceStore.getState()
+  return terminals.map(terminal => {
+    const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+    const lines = scrollbackStore.getPlainLines(terminal.id)
+    // Drop the trailing prompt line that is still being typed into
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+      lines.pop()
+    }
+    return {
+      terminalId: terminal.id,
+      workspaceLabel: workspace ? (workspace.alias || workspace.name) : '',
+      terminalTitle: terminal.alias || terminal.title,
+      lines
+    }
+  })
+}
+
+function search(sources: TerminalLines[], pattern: RegExp): SearchHit[] {
+  const hits: SearchHit[] = []
+  for (const source of sources) {
+    const { lines } = source
+    for (let i = 0; i < lines.length && hits.length < MAX_HITS; i++) {
+      pattern.lastIndex = 0
+      const match = pattern.exec(lines[i])
+      if (!match || match[0] === '') continue
+      hits.push({
+        terminalId: source.terminalId,
+        workspaceLabel: source.workspaceLabel,
+        terminalTitle: source.terminalTitle,
+        lineIndex: i,
+        linesFromEnd: lines.length - 1 - i,
+        line: lines[i],
+        before: lines[i - 1] ?? '',
+        after: lines[i + 1] ?? '',
+        matchStart: match.index,
+        matchText: match[0]
+      })
+    }
+  }
+  return hits
+}
+
+export function GlobalSearchPanel({ onClose }: GlobalSearchPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [query, setQuery] = useState('')
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [regex, setRegex] = useState(false)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  const sources = useMemo(collectTerminalLines, [])
+
+  const { hits, error } = useMemo(() => {
+    if (!query) return { hits: [], error: null }
+    try {
+      const pattern = new RegExp(regex ? query : escapeRegex(query), caseSensitive ? '' : 'i')
+      return { hits: search(sources, pattern), error: null }
+    } catch {
+      return { hits: [], error: 'Invalid regex' }
+    }
+  }, [sources, query, caseSensitive, regex])
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [hits])
+
+  const openHit = (hit: SearchHit) => {
+    workspaceStore.showTerminal(hit.terminalId)
+    terminalRegistry.reveal(hit.terminalId, { match: hit.matchText, linesFromEnd: hit.linesFromEnd })
+    onClose()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setSelectedIndex(Math.min(selectedIndex + 1, hits.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelectedIndex(Math.max(selectedIndex - 1, 0))
+    } else if (e.key === 'Enter' && hits[selectedIndex]) {
+      e.preventDefault()
+      openHit(hits[selectedIndex])
+    } else if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel global-search-panel" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>Search All Terminals</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="global-search-input">
+          <input
+            ref={inputRef}
+            type="text"
+            className={error ? 'invalid' : ''}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search output, e.g. ECONNREFUSED"
+          />
+          <button
+            className={`search-option ${caseSensitive ? 'active' : ''}`}
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            title="Match case"
+          >
+            Aa
+          </button>
+          <button
+            className={`search-option ${regex ? 'active' : ''}`}
+            onClick={() => setRegex(!regex)}
+            title="Use regular expression"
+          >
+            .*
+          </button>
+        </div>
+
+        <div className="global-search-results">
+          {error && <div className="global-search-empty">{error}</div>}
+          {!error && query && hits.length === 0 && (
+            <div className="global-search-empty">No results</div>
+          )}
+          {hits.map((hit, index) => (
+            <div
+              key={`${hit.terminalId}:${hit.lineIndex}`}
+              className={`global-search-hit ${index === selectedIndex ? 'selected' : ''}`}
+              onClick={() => openHit(hit)}
+              onMouseEnter={() => setSelectedIndex(index)}
+            >
+              <div className="global-search-hit-header">
+                <span>{hit.workspaceLabel}</span>
+                <span className="global-search-separator">›</span>
+                <span>{hit.terminalTitle}</span>
+                <span className="global-search-line-number">L{hit.lineIndex + 1}</span>
+              </div>
+              <div className="global-search-context">{hit.before}</div>
+              <div className="global-search-line">
+                {hit.line.slice(0, hit.matchStart)}
+                <mark>{hit.matchText}</mark>
+                {hit.line.slice(hit.matchStart + hit.matchText.length)}
+              </div>
+              <div className="global-search-context">{hit.after}</div>
+            </div>
+          ))}
+          {hits.length >= MAX_HITS && (
+            <div className="global-search-empty">Showing the first {MAX_HITS} results</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react'
+import type { Keybindings } from '../types'
+import { settingsStore } from '../stores/settings-store'
+import { keybindingDispatcher } from '../stores/keybinding-dispatcher'
+import {
+  KEYBINDING_ACTIONS,
+  eventToChord,
+  findConflicts,
+  formatChord,
+  getDefaultKeybindings,
+  resolveKeybindings
+} from '../utils/keybindings'
+
+interface KeybindingsEditorProps {
+  overrides: Keybindings
+}
+
+const ACTION_LABELS = new Map(KEYBINDING_ACTIONS.map(action => [action.id, action.label]))
+const CATEGORIES = Array.from(new Set(KEYBINDING_ACTIONS.map(action => action.category)))
+
+export function KeybindingsEditor({ overrides }: KeybindingsEditorProps) {
+  // Action whose chord is being recorded
+  const [recording, setRecording] = useState<string | null>(null)
+
+  const bindings = resolveKeybindings(overrides)
+  const defaults = getDefaultKeybindings()
+  const conflicts = findConflicts(bindings)
+
+  useEffect(() => {
+    if (!recording) return
+    const resume = keybindingDispatcher.suspend()
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key === 'Escape') {
+        setRecording(null)
+        return
+      }
+      const chord = eventToChord(e)
+      if (chord) {
+        settingsStore.setKeybinding(recording, chord)
+        setRecording(null)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true)
+      resume()
+    }
+  }, [recording])
+
+  return (
+    <div className="keybindings-editor">
+      {CATEGORIES.map(category => (
+        <div key={category} className="keybindings-category">
+          <div className="keybindings-category-title">{category}</div>
+          {KEYBINDING_ACTIONS.filter(action => action.category === category).map(action => {
+            const chord = bindings[action.id] ?? null
+            const others = chord ? (conflicts.get(chord) ?? []).filter(id => id !== action.id) : []
+            const isOverridden = action.id in overrides
+            return (
+              <div key={action.id} className="keybinding-row">
+                <span className="keybinding-label">
+                  {action.label}
+                  {others.length > 0 && (
+                    <span className="keybinding-conflict">
+                      Also bound to {others.map(id => ACTION_LABELS.get(id)).join(', ')}
+                    </span>
+                  )}
+                </span>
+                <button
+                  className={`keybinding-chord ${recording === action.id ? 'recording' : ''} ${others.length > 0 ? 'conflict' : ''}`}
+                  onClick={() => setRecording(recording === action.id ? null : action.id)}
+                  title="Click, then press the new shortcut"
+                >
+                  {recording === action.id ? 'Press keys…' : chord ? formatChord(chord) : 'Send to terminal'}
+                </button>
+                <button
+                  className="keybinding-action"
+                  onClick={() => settingsStore.setKeybinding(action.id, null)}
+                  disabled={chord === null}
+                  title="Remove the shortcut and send the keys to the terminal"
+                >
+                  ⊘
+                </button>
+                <button
+                  className="keybinding-action"
+                  onClick={() => settingsStore.setKeybinding(action.id, defaults[action.id] ?? null)}
+                  disabled={!isOverridden}
+                  title="Reset to default"
+                >
+                  ↺
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      ))}
+      <button
+        className="keybindings-reset"
+        onClick={() => settingsStore.resetKeybindings()}
+        disabled={Object.keys(overrides).length === 0}
+      >
+        Reset All Shortcuts
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Terminal } from '@xterm/xterm'
+import { Unicode11Addon } from '@xterm/addon-unicode11'
+import { parseAsciicast, parseResize } from '../utils/asciicast'
+import type { Asciicast } from '../utils/asciicast'
+import { getTerminalOptions, getTerminalTheme } from '../utils/terminal-theme'
+import { settingsStore } from '../stores/settings-store'
+import '@xterm/xterm/css/xterm.css'
+
+interface ReplayPanelProps {
+  filePath: string
+  content: string
+  onClose: () => void
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8]
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}:${rest.toString().padStart(2, '0')}`
+}
+
+export function ReplayPanel({ filePath, content, onClose }: ReplayPanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const terminalRef = useRef<Terminal | null>(null)
+  // Index of the next event to play and the playback clock, in seconds
+  const positionRef = useRef({ index: 0, time: 0 })
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [currentTime, setCurrentTime] = useState(0)
+
+  const { cast, error } = useMemo((): { cast: Asciicast | null; error: string | null } => {
+    try {
+      return { cast: parseAsciicast(content), error: null }
+    } catch (e) {
+      return { cast: null, error: e instanceof Error ? e.message : String(e) }
+    }
+  }, [content])
+
+  // Write every event up to the given time, batching output between resizes
+  const playUntil = (time: number) => {
+    const terminal = terminalRef.current
+    if (!terminal || !cast) return
+    const position = positionRef.current
+    let output = ''
+    while (position.index < cast.events.length && cast.events[position.index][0] <= time) {
+      const [, type, data] = cast.events[position.index]
+      if (type === 'o') {
+        output += data
+      } else if (type === 'r') {
+        const size = parseResize(data)
+        if (size) {
+          terminal.write(output)
+          output = ''
+          terminal.resize(size.cols, size.rows)
+        }
+      }
+      position.index++
+    }
+    if (output) {
+      terminal.write(output)
+    }
+    position.time = time
+  }
+
+  const seek = (time: number) => {
+    const terminal = terminalRef.current
+    if (!terminal || !cast) return
+    terminal.reset()
+    terminal.resize(cast.header.width, cast.header.height)
+    positionRef.current = { index: 0, time: 0 }
+    playUntil(time)
+    setCurrentTime(time)
+  }
+
+  useEffect(() => {
+    if (!containerRef.current || !cast) return
+
+    const terminal = new Terminal({
+      ...getTerminalOptions(settingsStore.getSettings()),
+      cols: cast.header.width,
+      rows: cast.header.height,
+      disableStdin: true,
+      cursorBlink: false,
+      scrollback: 10000,
+      convertEol: true,
+      allowProposedApi: true
+    })
+    terminal.open(containerRef.current)
+    terminal.loadAddon(new Unicode11Addon())
+    terminal.unicode.activeVersion = '11'
+
+    terminalRef.current = terminal
+    positionRef.current = { index: 0, time: 0 }
+    setPlaying(true)
+
+    return () => {
+      terminalRef.current = null
+      terminal.dispose()
+    }
+  }, [cast])
+
+  useEffect(() => {
+    if (!playing || !cast) return
+
+    let lastTick = performance.now()
+    let frame = requestAnimationFrame(function tick(now) {
+      const time = Math.min(positionRef.current.time + (now - lastTick) / 1000 * speed, cast.duration)
+      lastTick = now
+      playUntil(time)
+      setCurrentTime(time)
+      if (positionRef.current.index >= cast.events.length) {
+        setPlaying(false)
+        return
+      }
+      frame = requestAnimationFrame(tick)
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [playing, speed, cast])
+
+  const handlePlayPause = () => {
+    // Start over once the end was reached
+    if (!playing && cast && positionRef.current.index >= cast.events.length) {
+      seek(0)
+    }
+    setPlaying(!playing)
+  }
+
+  const fileName = filePath.split(/[/\\]/).pop()
+  const background = getTerminalTheme(settingsStore.getSettings()).colors.background
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel replay-panel" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>{cast?.header.title || fileName}</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        {error ? (
+          <div className="settings-content">
+            <p className="settings-note">Cannot replay {fileName}: {error}</p>
+          </div>
+        ) : (
+          <>
+            <div className="replay-terminal" style={{ background }}>
+              <div ref={containerRef} />
+            </div>
+            <div className="replay-controls">
+              <button className="action-btn" onClick={handlePlayPause} title={playing ? 'Pause' : 'Play'}>
+                {playing ? '❚❚' : '▶'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={cast?.duration ?? 0}
+                step={0.1}
+                value={currentTime}
+                onChange={e => seek(Number(e.target.value))}
+              />
+              <span className="replay-time">
+                {formatTime(currentTime)} / {formatTime(cast?.duration ?? 0)}
+              </span>
+              <select value={speed} onChange={e => setSpeed(Number(e.target.value))}>
+                {SPEEDS.map(s => (
+                  <option key={s} value={s}>{s}×</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { workspaceStore } from '../stores/workspace-store'
+import { scrollbackStore } from '../stores/scrollback-store'
+import type { ScrollbackStats } from '../utils/scrollback-buffer'
+
+interface ScrollbackMemoryPanelProps {
+  onClose: () => void
+}
+
+interface TerminalUsage {
+  id: string
+  label: string
+  stats: ScrollbackStats
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`
+}
+
+function collectUsage(): TerminalUsage[] {
+  const { workspaces, terminals } = workspaceStore.getState()
+  return terminals.map(terminal => {
+    const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+    return {
+      id: terminal.id,
+      label: `${workspace ? (workspace.alias || workspace.name) : ''} › ${terminal.alias || terminal.title}`,
+      stats: scrollbackStore.getStats(terminal.id) ?? { chunks: 0, chars: 0, plainChars: 0, lines: 0, bytes: 0 }
+    }
+  })
+}
+
+// Debug view of the scrollback kept in memory for each terminal
+export function ScrollbackMemoryPanel({ onClose }: ScrollbackMemoryPanelProps) {
+  const [usage, setUsage] = useState<TerminalUsage[]>(collectUsage)
+
+  useEffect(() => {
+    const interval = setInterval(() => setUsage(collectUsage()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const totalBytes = usage.reduce((sum, { stats }) => sum + stats.bytes, 0)
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel scrollback-memory-panel" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>Scrollback Memory</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <table className="scrollback-memory-table">
+            <thead>
+              <tr>
+                <th>Terminal</th>
+                <th>Lines</th>
+                <th>Chunks</th>
+                <th>Raw</th>
+                <th>Stripped</th>
+                <th>Memory</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map(({ id, label, stats }) => (
+                <tr key={id}>
+                  <td>{label}</td>
+                  <td>{stats.lines}</td>
+                  <td>{stats.chunks}</td>
+                  <td>{stats.chars}</td>
+                  <td>{stats.plainChars}</td>
+                  <td>{formatBytes(stats.bytes)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={5}>Total</td>
+                <td>{formatBytes(totalBytes)}</td>
+              </tr>
+            </tfoot>
+          </table>
+          <p className="settings-note">
+            Memory is estimated from the raw output and its stripped copy, two bytes per character.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,15 @@
 import { useState, useEffect } from 'react'
-import type { AppSettings, ShellType } from '../types'
+import { v4 as uuidv4 } from 'uuid'
+import type { AppSettings, CursorStyle, ShellProfile, Snippet } from '../types'
 import { settingsStore } from '../stores/settings-store'
+import { workspaceStore } from '../stores/workspace-store'
+import { shellProfileStore } from '../stores/shell-profile-store'
+import { BUILT_IN_THEMES, TERMINAL_FONT_FAMILY } from '../utils/terminal-theme'
+import { importColorSchemes } from '../utils/theme-import'
+import { AgentCommandEditor } from './AgentCommandEditor'
+import { ShellProfileEditor } from './ShellProfileEditor'
+import { SnippetEditor } from './SnippetEditor'
+import { KeybindingsEditor } from './KeybindingsEditor'
 
 interface SettingsPanelProps {
   onClose: () => void
@@ -8,6 +17,11 @@ interface SettingsPanelProps {
 
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const [settings, setSettings] = useState<AppSettings>(settingsStore.getSettings())
+  const [importError, setImportError] = useState<string | null>(null)
+  const [profiles, setProfiles] = useState<ShellProfile[]>(shellProfileStore.getProfiles())
+  // User-defined profile open in the editor
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(null)
+  const [editingSnippetId, setEditingSnippetId] = useState<string | null>(null)
 
   useEffect(() => {
     return settingsStore.subscribe(() => {
@@ -15,18 +29,59 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
     })
   }, [])
 
-  const handleShellChange = (shell: ShellType) => {
-    settingsStore.setShell(shell)
+  useEffect(() => {
+    return shellProfileStore.subscribe(() => {
+      setProfiles(shellProfileStore.getProfiles())
+    })
+  }, [])
+
+  const handleAddProfile = () => {
+    const profile: ShellProfile = { id: uuidv4(), name: 'New Profile', path: '', args: [], env: {} }
+    settingsStore.saveShellProfile(profile)
+    setEditingProfileId(profile.id)
+  }
+
+  const editingProfile = settings.shellProfiles.find(p => p.id === editingProfileId)
+
+  const handleAddSnippet = () => {
+    const snippet: Snippet = { id: uuidv4(), name: 'New Snippet', body: '', scope: { type: 'global' }, bracketedPaste: true, submit: false }
+    settingsStore.saveSnippet(snippet)
+    setEditingSnippetId(snippet.id)
   }
 
-  const handleCustomPathChange = (path: string) => {
-    settingsStore.setCustomShellPath(path)
+  const getScopeLabel = (snippet: Snippet) => {
+    const { scope } = snippet
+    if (scope.type === 'role') return `Role ${scope.role}`
+    if (scope.type === 'workspace') {
+      const workspace = workspaceStore.getState().workspaces.find(w => w.id === scope.workspaceId)
+      return workspace ? (workspace.alias || workspace.name) : 'Removed workspace'
+    }
+    return 'All workspaces'
   }
 
+  const editingSnippet = settings.snippets.find(s => s.id === editingSnippetId)
+
   const handleFontSizeChange = (size: number) => {
     settingsStore.setFontSize(size)
   }
 
+  const handleImportTheme = async () => {
+    const result = await window.electronAPI.dialog.openFile([
+      { name: 'Color Schemes', extensions: ['itermcolors', 'json'] }
+    ])
+    if (!result) return
+    try {
+      const fileName = result.filePath.split(/[/\\]/).pop() ?? ''
+      const themes = importColorSchemes(fileName, result.content)
+      themes.forEach(theme => settingsStore.addCustomTheme(theme))
+      setImportError(null)
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const isCustomTheme = settings.customThemes.some(t => t.id === settings.terminalTheme)
+
   return (
     <div className="settings-overlay" onClick={onClose}>
       <div className="settings-panel" onClick={e => e.stopPropagation()}>
@@ -41,32 +96,241 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             <div className="settings-group">
               <label>Default Shell</label>
               <select
-                value={settings.shell}
-                onChange={e => handleShellChange(e.target.value as ShellType)}
+                value={settings.defaultShellProfile}
+                onChange={e => settingsStore.setDefaultShellProfile(e.target.value)}
               >
-                <option value="auto">Auto (prefer pwsh)</option>
-                <option value="pwsh">PowerShell 7 (pwsh)</option>
-                <option value="powershell">Windows PowerShell</option>
-                <option value="cmd">Command Prompt (cmd)</option>
-                <option value="custom">Custom</option>
+                <option value="">Auto ({profiles.find(p => p.detected)?.name ?? 'system default'})</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
               </select>
             </div>
 
-            {settings.shell === 'custom' && (
-              <div className="settings-group">
-                <label>Custom Shell Path</label>
-                <input
-                  type="text"
-                  value={settings.customShellPath}
-                  onChange={e => handleCustomPathChange(e.target.value)}
-                  placeholder="C:\path\to\shell.exe"
-                />
+            <div className="settings-group">
+              <label>Profiles</label>
+              <div className="shell-profile-list">
+                {profiles.map(profile => (
+                  <div key={profile.id} className={`shell-profile-row ${profile.id === editingProfileId ? 'editing' : ''}`}>
+                    <span className="shell-profile-icon">{profile.icon || '❯'}</span>
+                    <span className="shell-profile-name">{profile.name}</span>
+                    <span className="shell-profile-path">{profile.detected ? `Detected · ${profile.path}` : profile.path}</span>
+                    {!profile.detected && (
+                      <>
+                        <button
+                          className="settings-icon-btn"
+                          onClick={() => setEditingProfileId(editingProfileId === profile.id ? null : profile.id)}
+                          title="Edit profile"
+                        >
+                          ✎
+                        </button>
+                        <button
+                          className="settings-icon-btn"
+                          onClick={() => settingsStore.removeShellProfile(profile.id)}
+                          title="Remove profile"
+                        >
+                          ×
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ))}
               </div>
+              <button className="settings-action-btn settings-add-btn" onClick={handleAddProfile}>
+                Add Profile
+              </button>
+            </div>
+
+            {editingProfile && (
+              <ShellProfileEditor
+                value={editingProfile}
+                onChange={profile => settingsStore.saveShellProfile(profile)}
+              />
+            )}
+          </div>
+
+          <div className="settings-section">
+            <h3>Agent</h3>
+            <AgentCommandEditor
+              value={settings.agentCommand}
+              onChange={agentCommand => settingsStore.setAgentCommand(agentCommand)}
+            />
+          </div>
+
+          <div className="settings-section">
+            <h3>Snippets</h3>
+            <div className="settings-group">
+              {settings.snippets.length > 0 && (
+                <div className="snippet-list">
+                  {settings.snippets.map(snippet => (
+                    <div key={snippet.id} className={`shell-profile-row ${snippet.id === editingSnippetId ? 'editing' : ''}`}>
+                      <span className="shell-profile-name">{snippet.name}</span>
+                      <span className="shell-profile-path">{getScopeLabel(snippet)}</span>
+                      <button
+                        className="settings-icon-btn"
+                        onClick={() => setEditingSnippetId(editingSnippetId === snippet.id ? null : snippet.id)}
+                        title="Edit snippet"
+                      >
+                        ✎
+                      </button>
+                      <button
+                        className="settings-icon-btn"
+                        onClick={() => settingsStore.removeSnippet(snippet.id)}
+                        title="Remove snippet"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <button className="settings-action-btn settings-add-btn" onClick={handleAddSnippet}>
+                Add Snippet
+              </button>
+              <p className="settings-note">Insert a snippet from the command palette or the terminal's right-click menu.</p>
+            </div>
+
+            {editingSnippet && (
+              <SnippetEditor
+                value={editingSnippet}
+                onChange={snippet => settingsStore.saveSnippet(snippet)}
+              />
             )}
           </div>
 
+          <div className="settings-section">
+            <h3>Notifications</h3>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications.enabled}
+                  onChange={e => settingsStore.setNotifications({ enabled: e.target.checked })}
+                />
+                Notify when an agent in the background needs input or finishes
+              </label>
+            </div>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications.doNotDisturb}
+                  onChange={e => settingsStore.setNotifications({ doNotDisturb: e.target.checked })}
+                />
+                Do not disturb
+              </label>
+            </div>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications.flashFrame}
+                  onChange={e => settingsStore.setNotifications({ flashFrame: e.target.checked })}
+                />
+                Flash the taskbar button
+              </label>
+            </div>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications.badgeCount}
+                  onChange={e => settingsStore.setNotifications({ badgeCount: e.target.checked })}
+                />
+                Show the number of agents waiting for input on the app icon
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <h3>Sessions</h3>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.persistentSessions}
+                  onChange={e => settingsStore.setPersistentSessions(e.target.checked)}
+                />
+                Keep terminals running after the app closes
+              </label>
+              <p className="settings-note">
+                Terminals run in a background process and are reattached, with the output they produced meanwhile, when the app opens again. Takes effect after restarting the app.
+              </p>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <h3>Recording</h3>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.recordInput}
+                  onChange={e => settingsStore.setRecordInput(e.target.checked)}
+                />
+                Include keyboard input in recordings
+              </label>
+            </div>
+          </div>
+
           <div className="settings-section">
             <h3>Appearance</h3>
+            <div className="settings-group">
+              <label>Terminal Theme</label>
+              <div className="theme-picker">
+                <select
+                  value={settings.terminalTheme}
+                  onChange={e => settingsStore.setTerminalTheme(e.target.value)}
+                >
+                  <optgroup label="Built-in">
+                    {BUILT_IN_THEMES.map(theme => (
+                      <option key={theme.id} value={theme.id}>{theme.name}</option>
+                    ))}
+                  </optgroup>
+                  {settings.customThemes.length > 0 && (
+                    <optgroup label="Imported">
+                      {settings.customThemes.map(theme => (
+                        <option key={theme.id} value={theme.id}>{theme.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                <button className="settings-action-btn" onClick={handleImportTheme} title="Import an iTerm2 or Windows Terminal color scheme">
+                  Import…
+                </button>
+                {isCustomTheme && (
+                  <button
+                    className="settings-action-btn"
+                    onClick={() => settingsStore.removeCustomTheme(settings.terminalTheme)}
+                    title="Remove this imported theme"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              {importError && <p className="settings-error">{importError}</p>}
+            </div>
+
+            <div className="settings-group">
+              <label>App Theme</label>
+              <select
+                value={settings.theme}
+                onChange={e => settingsStore.setTheme(e.target.value as 'dark' | 'light')}
+              >
+                <option value="dark">Dark</option>
+                <option value="light">Light</option>
+              </select>
+            </div>
+
+            <div className="settings-group">
+              <label>Font Family</label>
+              <input
+                type="text"
+                value={settings.fontFamily}
+                onChange={e => settingsStore.setFontFamily(e.target.value)}
+                placeholder={TERMINAL_FONT_FAMILY}
+              />
+            </div>
+
             <div className="settings-group">
               <label>Font Size: {settings.fontSize}px</label>
               <input
@@ -77,11 +341,51 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                 onChange={e => handleFontSizeChange(Number(e.target.value))}
               />
             </div>
+
+            <div className="settings-group">
+              <label>Line Height: {settings.lineHeight.toFixed(1)}</label>
+              <input
+                type="range"
+                min="1"
+                max="2"
+                step="0.1"
+                value={settings.lineHeight}
+                onChange={e => settingsStore.setLineHeight(Number(e.target.value))}
+              />
+            </div>
+
+            <div className="settings-group">
+              <label>Cursor Style</label>
+              <select
+                value={settings.cursorStyle}
+                onChange={e => settingsStore.setCursorStyle(e.target.value as CursorStyle)}
+              >
+                <option value="block">Block</option>
+                <option value="underline">Underline</option>
+                <option value="bar">Bar</option>
+              </select>
+            </div>
+
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.cursorBlink}
+                  onChange={e => settingsStore.setCursorBlink(e.target.checked)}
+                />
+                Blinking cursor
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <h3>Keyboard Shortcuts</h3>
+            <KeybindingsEditor overrides={settings.keybindings} />
           </div>
         </div>
 
         <div className="settings-footer">
-          <p className="settings-note">Changes are saved automatically. Restart terminals to apply shell changes.</p>
+          <p className="settings-note">Changes are saved automatically. Restart terminals to apply shell and agent changes.</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react'
+import type { ShellProfile } from '../types'
+import { parseArgs, formatArgs } from '../utils/command-args'
+import { EnvVarsEditor } from './EnvVarsEditor'
+
+interface ShellProfileEditorProps {
+  value: ShellProfile
+  onChange: (value: ShellProfile) => void
+}
+
+export function ShellProfileEditor({ value, onChange }: ShellProfileEditorProps) {
+  const [argsText, setArgsText] = useState(formatArgs(value.args))
+
+  // Keep local text in sync when another profile is selected
+  useEffect(() => {
+    setArgsText(formatArgs(value.args))
+  }, [value.id])
+
+  return (
+    <div className="shell-profile-editor">
+      <div className="settings-group shell-profile-name-row">
+        <div>
+          <label>Icon</label>
+          <input
+            type="text"
+            value={value.icon ?? ''}
+            onChange={e => onChange({ ...value, icon: e.target.value || undefined })}
+            placeholder="❯"
+            maxLength={2}
+          />
+        </div>
+        <div>
+          <label>Name</label>
+          <input
+            type="text"
+            value={value.name}
+            onChange={e => onChange({ ...value, name: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="settings-group">
+        <label>Executable</label>
+        <input
+          type="text"
+          value={value.path}
+          onChange={e => onChange({ ...value, path: e.target.value })}
+          placeholder="/bin/bash"
+        />
+      </div>
+      <div className="settings-group">
+        <label>Arguments</label>
+        <input
+          type="text"
+          value={argsText}
+          onChange={e => setArgsText(e.target.value)}
+          onBlur={() => onChange({ ...value, args: parseArgs(argsText) })}
+          placeholder="--login"
+        />
+      </div>
+      <div className="settings-group">
+        <label>Starting Directory</label>
+        <input
+          type="text"
+          value={value.cwd ?? ''}
+          onChange={e => onChange({ ...value, cwd: e.target.value || undefined })}
+          placeholder="Workspace folder"
+        />
+      </div>
+      <div className="settings-group">
+        <label>Environment Variables</label>
+        <EnvVarsEditor
+          value={value.env}
+          onChange={env => onChange({ ...value, env })}
+        />
+      </div>
+    </div>
+  )
+}
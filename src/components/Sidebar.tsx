@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect } from 'react'
 import type { Workspace } from '../types'
 import { PRESET_ROLES } from '../types'
+import { settingsStore } from '../stores/settings-store'
 import { ActivityIndicator } from './ActivityIndicator'
+import { GitStatusBadge } from './GitStatusBadge'
 
 interface SidebarProps {
   workspaces: Workspace[]
@@ -11,6 +13,10 @@ interface SidebarProps {
   onRemoveWorkspace: (id: string) => void
   onRenameWorkspace: (id: string, alias: string) => void
   onSetWorkspaceRole: (id: string, role: string) => void
+  onOpenWorkspaceSettings: (id: string) => void
+  onOpenWorktree: (id: string) => void
+  onOpenGlobalSearch: () => void
+  onOpenReplay: () => void
   onOpenSettings: () => void
   onOpenAbout: () => void
 }
@@ -21,6 +27,14 @@ function getRoleColor(role?: string): string {
   return preset?.color || '#dfdbc3'
 }
 
+// Worktree workspaces follow the workspace they were created from
+function orderWorkspaces(workspaces: Workspace[]): Workspace[] {
+  const isChild = (w: Workspace) => !!w.worktree && workspaces.some(p => p.id === w.worktree?.parentId)
+  return workspaces
+    .filter(w => !isChild(w))
+    .flatMap(w => [w, ...workspaces.filter(child => isChild(child) && child.worktree?.parentId === w.id)])
+}
+
 export function Sidebar({
   workspaces,
   activeWorkspaceId,
@@ -29,6 +43,10 @@ export function Sidebar({
   onRemoveWorkspace,
   onRenameWorkspace,
   onSetWorkspaceRole,
+  onOpenWorkspaceSettings,
+  onOpenWorktree,
+  onOpenGlobalSearch,
+  onOpenReplay,
   onOpenSettings,
   onOpenAbout
 }: SidebarProps) {
@@ -38,6 +56,13 @@ export function Sidebar({
   const [customRoleInput, setCustomRoleInput] = useState('')
   const inputRef = useRef<HTMLInputElement>(null)
   const roleMenuRef = useRef<HTMLDivElement>(null)
+  const [doNotDisturb, setDoNotDisturb] = useState(settingsStore.getSettings().notifications.doNotDisturb)
+
+  useEffect(() => {
+    return settingsStore.subscribe(() => {
+      setDoNotDisturb(settingsStore.getSettings().notifications.doNotDisturb)
+    })
+  }, [])
 
   useEffect(() => {
     if (editingId && inputRef.current) {
@@ -104,12 +129,21 @@ export function Sidebar({
 
   return (
     <aside className="sidebar">
-      <div className="sidebar-header">Workspaces</div>
+      <div className="sidebar-header">
+        <span>Workspaces</span>
+        <button
+          className={`dnd-btn ${doNotDisturb ? 'active' : ''}`}
+          onClick={() => settingsStore.setNotifications({ doNotDisturb: !doNotDisturb })}
+          title={doNotDisturb ? 'Do not disturb is on' : 'Do not disturb'}
+        >
+          {doNotDisturb ? '🔕' : '🔔'}
+        </button>
+      </div>
       <div className="workspace-list">
-        {workspaces.map(workspace => (
+        {orderWorkspaces(workspaces).map(workspace => (
           <div
             key={workspace.id}
-            className={`workspace-item ${workspace.id === activeWorkspaceId ? 'active' : ''}`}
+            className={`workspace-item ${workspace.id === activeWorkspaceId ? 'active' : ''} ${workspace.worktree ? 'worktree' : ''}`}
             onClick={() => onSelectWorkspace(workspace.id)}
           >
             <div className="workspace-item-content">
@@ -144,7 +178,8 @@ export function Sidebar({
                         {workspace.role || '＋'}
                       </span>
                     </div>
-                    <span className="workspace-folder">{workspace.name}</span>
+                    {!workspace.worktree && <span className="workspace-folder">{workspace.name}</span>}
+                    <GitStatusBadge workspace={workspace} />
                   </>
                 )}
               </div>
@@ -193,7 +228,28 @@ export function Sidebar({
                 <ActivityIndicator
                   workspaceId={workspace.id}
                   size="small"
+                  showLabel
                 />
+                <button
+                    className="remove-btn"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onOpenWorktree(workspace.id)
+                    }}
+                    title={workspace.worktree ? 'Merge back or remove worktree' : 'New agent worktree'}
+                  >
+                    ⎇
+                  </button>
+                <button
+                    className="remove-btn"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onOpenWorkspaceSettings(workspace.id)
+                    }}
+                    title="Workspace settings"
+                  >
+                    ⚙
+                  </button>
                 <button
                     className="remove-btn"
                     onClick={(e) => {
@@ -213,6 +269,14 @@ export function Sidebar({
         <button className="add-workspace-btn" onClick={onAddWorkspace}>
           + Add Workspace
         </button>
+        <div className="sidebar-footer-buttons">
+          <button className="settings-btn" onClick={onOpenGlobalSearch} title="Search all terminals (Ctrl+Shift+G)">
+            Search All
+          </button>
+          <button className="settings-btn" onClick={onOpenReplay} title="Replay a recorded session">
+            Replay
+          </button>
+        </div>
         <div className="sidebar-footer-buttons">
           <button className="settings-btn" onClick={onOpenSettings}>
             Settings
@@ -0,0 +1,106 @@
+import type { Snippet, SnippetScope } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { SNIPPET_VARIABLES } from '../utils/snippets'
+
+interface SnippetEditorProps {
+  value: Snippet
+  onChange: (value: Snippet) => void
+}
+
+export function SnippetEditor({ value, onChange }: SnippetEditorProps) {
+  const { workspaces } = workspaceStore.getState()
+  const roles = [...new Set(workspaces.map(w => w.role).filter((role): role is string => !!role))]
+
+  const handleScopeTypeChange = (type: SnippetScope['type']) => {
+    const scope: SnippetScope = type === 'role'
+      ? { type, role: roles[0] ?? '' }
+      : type === 'workspace' ? { type, workspaceId: workspaces[0]?.id ?? '' } : { type }
+    onChange({ ...value, scope })
+  }
+
+  const { scope } = value
+
+  return (
+    <div className="snippet-editor">
+      <div className="settings-group">
+        <label>Name</label>
+        <input
+          type="text"
+          value={value.name}
+          onChange={e => onChange({ ...value, name: e.target.value })}
+        />
+      </div>
+      <div className="settings-group snippet-scope-row">
+        <div>
+          <label>Available in</label>
+          <select value={scope.type} onChange={e => handleScopeTypeChange(e.target.value as SnippetScope['type'])}>
+            <option value="global">All workspaces</option>
+            <option value="role">Workspaces with a role</option>
+            <option value="workspace">One workspace</option>
+          </select>
+        </div>
+        {scope.type === 'role' && (
+          <div>
+            <label>Role</label>
+            <input
+              type="text"
+              value={scope.role}
+              onChange={e => onChange({ ...value, scope: { type: 'role', role: e.target.value } })}
+              list="snippet-roles"
+              placeholder="Frontend"
+            />
+            <datalist id="snippet-roles">
+              {roles.map(role => <option key={role} value={role} />)}
+            </datalist>
+          </div>
+        )}
+        {scope.type === 'workspace' && (
+          <div>
+            <label>Workspace</label>
+            <select
+              value={scope.workspaceId}
+              onChange={e => onChange({ ...value, scope: { type: 'workspace', workspaceId: e.target.value } })}
+            >
+              {!workspaces.some(w => w.id === scope.workspaceId) && <option value={scope.workspaceId}>Removed workspace</option>}
+              {workspaces.map(w => <option key={w.id} value={w.id}>{w.alias || w.name}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+      <div className="settings-group">
+        <label>Text</label>
+        <textarea
+          value={value.body}
+          onChange={e => onChange({ ...value, body: e.target.value })}
+          rows={6}
+          placeholder="Run the tests in {{workspace.folderPath}} and fix any failures."
+        />
+        <p className="settings-note">
+          Variables: {SNIPPET_VARIABLES.map(v => (
+            <code key={v.name} title={v.description}>{`{{${v.name}}}`}</code>
+          ))}
+        </p>
+      </div>
+      <div className="settings-group">
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={value.bracketedPaste}
+            onChange={e => onChange({ ...value, bracketedPaste: e.target.checked })}
+          />
+          Use bracketed paste, so agents keep several lines as one prompt
+        </label>
+      </div>
+      <div className="settings-group">
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={value.submit}
+            onChange={e => onChange({ ...value, submit: e.target.checked })}
+          />
+          Press Enter after inserting
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react'
+import type { Workspace, StartupTask, RestartPolicy } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { EnvVarsEditor } from './EnvVarsEditor'
+import { RESTART_POLICY_LABELS } from './ExitStatusBadge'
+
+interface TasksEditorProps {
+  workspace: Workspace
+}
+
+const PROJECT_CONFIG_FILE = '.better-agent-terminal.json'
+
+// Startup tasks of a workspace, or a read-only view of the project file's tasks
+export function TasksEditor({ workspace }: TasksEditorProps) {
+  const [projectTasks, setProjectTasks] = useState<StartupTask[] | null>(null)
+  const [projectError, setProjectError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI.workspace.loadProjectConfig(workspace.folderPath).then(({ config, error }) => {
+      if (cancelled) return
+      setProjectTasks(config?.tasks ?? null)
+      setProjectError(error ?? null)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspace.folderPath])
+
+  const tasks = workspace.tasks
+
+  const handleOverrideToggle = (override: boolean) => {
+    // Start from the project file so it can be tweaked locally
+    workspaceStore.setWorkspaceTasks(workspace.id, override ? [...(projectTasks ?? [])] : undefined)
+  }
+
+  const updateTask = (index: number, task: StartupTask) => {
+    workspaceStore.setWorkspaceTasks(workspace.id, tasks!.map((t, i) => i === index ? task : t))
+  }
+
+  const removeTask = (index: number) => {
+    workspaceStore.setWorkspaceTasks(workspace.id, tasks!.filter((_, i) => i !== index))
+  }
+
+  const addTask = () => {
+    const name = `Task ${(tasks?.length ?? 0) + 1}`
+    workspaceStore.setWorkspaceTasks(workspace.id, [...(tasks ?? []), { name, command: '' }])
+  }
+
+  return (
+    <>
+      <div className="settings-group">
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={!!tasks}
+            onChange={e => handleOverrideToggle(e.target.checked)}
+          />
+          Define tasks here instead of in {PROJECT_CONFIG_FILE}
+        </label>
+      </div>
+
+      {!tasks && (
+        <div className="settings-group">
+          {projectError && <p className="settings-error">{projectError}</p>}
+          {projectTasks && projectTasks.length > 0 ? (
+            <div className="task-list">
+              {projectTasks.map(task => (
+                <div key={task.name} className="task-row">
+                  <span className="task-name">{task.name}</span>
+                  <span className="task-command">{task.command}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            !projectError && <p className="settings-note">No {PROJECT_CONFIG_FILE} in the workspace folder. New workspaces open a single terminal.</p>
+          )}
+        </div>
+      )}
+
+      {tasks?.map((task, index) => (
+        <div key={index} className="task-editor">
+          <div className="settings-group task-editor-header">
+            <input
+              type="text"
+              value={task.name}
+              onChange={e => updateTask(index, { ...task, name: e.target.value })}
+              placeholder="Name"
+            />
+            <button className="settings-icon-btn" onClick={() => removeTask(index)} title="Remove task">
+              ×
+            </button>
+          </div>
+          <div className="settings-group">
+            <label>Command</label>
+            <input
+              type="text"
+              value={task.command}
+              onChange={e => updateTask(index, { ...task, command: e.target.value })}
+              placeholder="npm run dev"
+            />
+          </div>
+          <div className="settings-group">
+            <label>Directory</label>
+            <input
+              type="text"
+              value={task.cwd ?? ''}
+              onChange={e => updateTask(index, { ...task, cwd: e.target.value || undefined })}
+              placeholder="Workspace folder"
+            />
+          </div>
+          <div className="settings-group">
+            <label>Restart</label>
+            <select
+              value={task.restart ?? 'never'}
+              onChange={e => {
+                const restart = e.target.value as RestartPolicy
+                updateTask(index, { ...task, restart: restart === 'never' ? undefined : restart })
+              }}
+            >
+              {(Object.keys(RESTART_POLICY_LABELS) as RestartPolicy[]).map(policy => (
+                <option key={policy} value={policy}>{RESTART_POLICY_LABELS[policy]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="settings-group">
+            <label>Environment Variables</label>
+            <EnvVarsEditor
+              value={task.env ?? {}}
+              onChange={env => updateTask(index, { ...task, env: Object.keys(env).length > 0 ? env : undefined })}
+            />
+          </div>
+        </div>
+      ))}
+
+      {tasks && (
+        <div className="settings-group">
+          <button className="settings-action-btn settings-add-btn" onClick={addTask}>
+            Add Task
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
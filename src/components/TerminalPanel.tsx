@@ -3,12 +3,28 @@ import { Terminal } from '@xterm/xterm'
 import { FitAddon } from '@xterm/addon-fit'
 import { WebLinksAddon } from '@xterm/addon-web-links'
 import { Unicode11Addon } from '@xterm/addon-unicode11'
+import { SearchAddon } from '@xterm/addon-search'
+import { SerializeAddon } from '@xterm/addon-serialize'
 import { workspaceStore } from '../stores/workspace-store'
+import { terminalRegistry } from '../stores/terminal-registry'
+import { terminalOutput } from '../stores/terminal-output'
+import { scrollbackStore } from '../stores/scrollback-store'
+import { keybindingDispatcher } from '../stores/keybinding-dispatcher'
+import { broadcastStore } from '../stores/broadcast-store'
+import { settingsStore } from '../stores/settings-store'
+import { getTerminalOptions } from '../utils/terminal-theme'
+import { exportTerminalOutput, EXPORT_FORMATS } from '../utils/terminal-export'
+import { getTerminalSnippets, insertSnippet } from '../utils/snippets'
+import type { ExportFormat, ExportScope } from '../utils/terminal-export'
+import type { Snippet } from '../types'
+import { TerminalSearchBar } from './TerminalSearchBar'
+import { ExportOutputDialog } from './ExportOutputDialog'
 import '@xterm/xterm/css/xterm.css'
 
 interface TerminalPanelProps {
   terminalId: string
   isActive?: boolean
+  isFocused?: boolean
 }
 
 interface ContextMenu {
@@ -17,11 +33,19 @@ interface ContextMenu {
   hasSelection: boolean
 }
 
-export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProps) {
+export function TerminalPanel({ terminalId, isActive = true, isFocused = true }: TerminalPanelProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  // Read by the resize observer, which is only set up once per terminal
+  const isActiveRef = useRef(isActive)
+  isActiveRef.current = isActive
   const terminalRef = useRef<Terminal | null>(null)
   const fitAddonRef = useRef<FitAddon | null>(null)
+  const searchAddonRef = useRef<SearchAddon | null>(null)
+  const serializeAddonRef = useRef<SerializeAddon | null>(null)
   const [contextMenu, setContextMenu] = useState<ContextMenu | null>(null)
+  const [showSearch, setShowSearch] = useState(false)
+  // Whether text was selected when the export dialog was opened
+  const [exportDialog, setExportDialog] = useState<{ hasSelection: boolean } | null>(null)
 
   // Handle paste with text size checking
   const handlePasteText = (text: string) => {
@@ -37,12 +61,12 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
       // Send chunks with small delays to prevent overwhelming the terminal
       chunks.forEach((chunk, index) => {
         setTimeout(() => {
-          window.electronAPI.pty.write(terminalId, chunk)
+          broadcastStore.sendInput(terminalId, chunk)
         }, index * 50) // 50ms delay between chunks
       })
     } else {
       // Normal sized text, send directly
-      window.electronAPI.pty.write(terminalId, text)
+      broadcastStore.sendInput(terminalId, text)
     }
   }
 
@@ -69,6 +93,37 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
     setContextMenu(null)
   }
 
+  const handleInsertSnippet = (snippet: Snippet) => {
+    insertSnippet(snippet, terminalId)
+    setContextMenu(null)
+  }
+
+  const handleOpenExport = () => {
+    setExportDialog({ hasSelection: !!terminalRef.current?.hasSelection() })
+    setContextMenu(null)
+  }
+
+  const handleExport = async (format: ExportFormat, scope: ExportScope) => {
+    setExportDialog(null)
+    const terminal = terminalRef.current
+    const serializeAddon = serializeAddonRef.current
+    if (!terminal || !serializeAddon) return
+
+    const instance = workspaceStore.getState().terminals.find(t => t.id === terminalId)
+    const title = instance ? (instance.alias || instance.title) : 'terminal'
+    const content = exportTerminalOutput(terminal, serializeAddon, format, scope, title)
+    const { name, extension } = EXPORT_FORMATS[format]
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const fileName = `${title.replace(/[\\/:*?"<>|]/g, '_')}-${stamp}.${extension}`
+    await window.electronAPI.dialog.saveFile(fileName, content, [{ name, extensions: [extension] }])
+    terminal.focus()
+  }
+
+  const handleCloseSearch = () => {
+    setShowSearch(false)
+    terminalRef.current?.focus()
+  }
+
   // Close context menu when clicking outside
   useEffect(() => {
     const handleClickOutside = () => setContextMenu(null)
@@ -85,13 +140,15 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
           fitAddonRef.current.fit()
           const { cols, rows } = terminalRef.current
           window.electronAPI.pty.resize(terminalId, cols, rows)
-          terminalRef.current.focus()
+          if (isFocused) {
+            terminalRef.current.focus()
+          }
         }
       }, 100)
 
       return () => clearTimeout(timeoutId)
     }
-  }, [isActive, terminalId])
+  }, [isActive, isFocused, terminalId])
 
   // Add intersection observer to detect when terminal becomes visible
   useEffect(() => {
@@ -124,34 +181,8 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
     if (!containerRef.current) return
 
     // Create terminal instance
-    // Novel theme (macOS Terminal.app inspired)
     const terminal = new Terminal({
-      theme: {
-        background: '#1f1d1a',
-        foreground: '#dfdbc3',
-        cursor: '#dfdbc3',
-        cursorAccent: '#1f1d1a',
-        selectionBackground: '#5c5142',
-        black: '#3b3228',
-        red: '#cb6077',
-        green: '#beb55b',
-        yellow: '#f4bc87',
-        blue: '#8ab3b5',
-        magenta: '#a89bb9',
-        cyan: '#7bbda4',
-        white: '#d0c8c6',
-        brightBlack: '#554d46',
-        brightRed: '#cb6077',
-        brightGreen: '#beb55b',
-        brightYellow: '#f4bc87',
-        brightBlue: '#8ab3b5',
-        brightMagenta: '#a89bb9',
-        brightCyan: '#7bbda4',
-        brightWhite: '#f5f1e6'
-      },
-      fontSize: 14,
-      fontFamily: '"SF Mono", Menlo, Monaco, "Courier New", monospace',
-      cursorBlink: true,
+      ...getTerminalOptions(settingsStore.getSettings()),
       scrollback: 10000,
       convertEol: true,
       allowProposedApi: true,
@@ -161,7 +192,11 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
 
     const fitAddon = new FitAddon()
     const unicode11Addon = new Unicode11Addon()
+    const searchAddon = new SearchAddon()
+    const serializeAddon = new SerializeAddon()
     terminal.loadAddon(fitAddon)
+    terminal.loadAddon(searchAddon)
+    terminal.loadAddon(serializeAddon)
     terminal.open(containerRef.current)
 
     // Load unicode11 addon after terminal is open
@@ -199,50 +234,72 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
       fixImePosition()
     }
 
+    // Keep the padding around the grid in the theme's background
+    const container = containerRef.current
+    container.style.background = terminal.options.theme?.background ?? ''
+
+    // Apply Appearance changes to the running terminal
+    let appliedOptions = getTerminalOptions(settingsStore.getSettings())
+    const unsubscribeSettings = settingsStore.subscribe(() => {
+      const options = getTerminalOptions(settingsStore.getSettings())
+      const changed = (Object.keys(options) as (keyof typeof options)[])
+        .filter(key => options[key] !== appliedOptions[key])
+      if (changed.length === 0) return
+      appliedOptions = options
+      for (const key of changed) {
+        terminal.options[key] = options[key] as never
+      }
+      container.style.background = options.theme?.background ?? ''
+      // Font metrics decide how many cells fit
+      if (isActiveRef.current) {
+        fitAddon.fit()
+        window.electronAPI.pty.resize(terminalId, terminal.cols, terminal.rows)
+      }
+    })
+
     terminalRef.current = terminal
     fitAddonRef.current = fitAddon
+    searchAddonRef.current = searchAddon
+    serializeAddonRef.current = serializeAddon
 
-    // Handle terminal input
+    // Handle terminal input, mirrored to the other targets while broadcasting
     terminal.onData((data) => {
-      window.electronAPI.pty.write(terminalId, data)
+      broadcastStore.sendInput(terminalId, data)
     })
 
-    // Handle copy and paste shortcuts
-    terminal.attachCustomKeyEventHandler((event) => {
-      // Ctrl+Shift+C for copy
-      if (event.ctrlKey && event.shiftKey && event.key === 'C') {
-        const selection = terminal.getSelection()
-        if (selection) {
-          navigator.clipboard.writeText(selection)
-        }
-        return false
-      }
-      // Ctrl+Shift+V for paste
-      if (event.ctrlKey && event.shiftKey && event.key === 'V') {
-        navigator.clipboard.readText().then((text) => {
-          handlePasteText(text)
-        })
-        return false
-      }
-      // Ctrl+V for paste (standard shortcut)
-      if (event.ctrlKey && !event.shiftKey && event.key === 'v') {
-        event.preventDefault()
-        navigator.clipboard.readText().then((text) => {
-          handlePasteText(text)
-        })
-        return false
+    // Copy, paste and find shortcuts, only while this terminal has keyboard focus
+    const hasFocus = () => document.activeElement === terminal.textarea
+    const copySelection = () => {
+      const selection = terminal.getSelection()
+      if (selection) {
+        navigator.clipboard.writeText(selection)
       }
-      // Ctrl+C for copy when there's a selection
-      if (event.ctrlKey && !event.shiftKey && event.key === 'c') {
-        const selection = terminal.getSelection()
-        if (selection) {
-          navigator.clipboard.writeText(selection)
-          return false
-        }
-        // If no selection, let Ctrl+C pass through for interrupt signal
-        return true
+      return !!selection
+    }
+    const paste = () => {
+      navigator.clipboard.readText().then((text) => {
+        handlePasteText(text)
+      })
+    }
+    const unregisterKeybindings = keybindingDispatcher.register({
+      'terminal.find': () => {
+        if (!hasFocus()) return false
+        setShowSearch(true)
+      },
+      'terminal.copy': () => {
+        if (!hasFocus()) return false
+        copySelection()
+      },
+      'terminal.paste': () => {
+        if (!hasFocus()) return false
+        paste()
+      },
+      // Without a selection the key is sent on, e.g. Ctrl+C as interrupt
+      'terminal.copyOrSend': () => hasFocus() && copySelection(),
+      'terminal.pasteShortcut': () => {
+        if (!hasFocus()) return false
+        paste()
       }
-      return true
     })
 
     // Right-click context menu for copy/paste
@@ -256,13 +313,17 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
       })
     })
 
-    // Handle terminal output
-    const unsubscribeOutput = window.electronAPI.pty.onOutput((id, data) => {
-      if (id === terminalId) {
-        terminal.write(data)
-        // Update activity time when there's output
-        workspaceStore.updateTerminalActivity(terminalId)
-      }
+    // Replay earlier output, restored from disk or from before a workspace switch
+    const scrollback = scrollbackStore.getText(terminalId)
+    if (scrollback) {
+      terminal.write(scrollback)
+    }
+
+    const unregister = terminalRegistry.register(terminalId, { terminal, searchAddon, paste: handlePasteText })
+
+    // Handle terminal output, the callback lets the pty send more
+    const unsubscribeOutput = terminalOutput.setWriter(terminalId, (data, done) => {
+      terminal.write(data, done)
     })
 
     // Handle terminal exit
@@ -275,7 +336,7 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
     // Handle resize
     const resizeObserver = new ResizeObserver(() => {
       // Only resize if terminal is currently active
-      if (isActive) {
+      if (isActiveRef.current) {
         fitAddon.fit()
         const { cols, rows } = terminal
         window.electronAPI.pty.resize(terminalId, cols, rows)
@@ -291,16 +352,27 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
     }, 100)
 
     return () => {
+      unregister()
+      unregisterKeybindings()
       unsubscribeOutput()
       unsubscribeExit()
+      unsubscribeSettings()
       resizeObserver.disconnect()
       observer.disconnect()
       terminal.dispose()
     }
   }, [terminalId])
 
+  const snippets = contextMenu ? getTerminalSnippets(terminalId) : []
+
   return (
     <div ref={containerRef} className="terminal-panel">
+      {showSearch && searchAddonRef.current && (
+        <TerminalSearchBar
+          searchAddon={searchAddonRef.current}
+          onClose={handleCloseSearch}
+        />
+      )}
       {contextMenu && (
         <div
           className="context-menu"
@@ -319,8 +391,29 @@ export function TerminalPanel({ terminalId, isActive = true }: TerminalPanelProp
           <button onClick={handlePaste} className="context-menu-item">
             貼上
           </button>
+          <button onClick={handleOpenExport} className="context-menu-item">
+            匯出輸出…
+          </button>
+          {snippets.length > 0 && <div className="context-menu-separator" />}
+          {snippets.map(snippet => (
+            <button
+              key={snippet.id}
+              onClick={() => handleInsertSnippet(snippet)}
+              className="context-menu-item"
+              title={snippet.body}
+            >
+              {snippet.name}
+            </button>
+          ))}
         </div>
       )}
+      {exportDialog && (
+        <ExportOutputDialog
+          hasSelection={exportDialog.hasSelection}
+          onExport={handleExport}
+          onCancel={() => setExportDialog(null)}
+        />
+      )}
     </div>
   )
 }
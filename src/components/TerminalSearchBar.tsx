@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react'
+import type { SearchAddon, ISearchOptions } from '@xterm/addon-search'
+
+interface TerminalSearchBarProps {
+  searchAddon: SearchAddon
+  onClose: () => void
+}
+
+interface SearchResults {
+  resultIndex: number
+  resultCount: number
+}
+
+// Colors must be in #RRGGBB format for the search addon
+const SEARCH_DECORATIONS = {
+  matchBackground: '#5c5142',
+  matchOverviewRuler: '#f4bc87',
+  activeMatchBackground: '#d97706',
+  activeMatchColorOverviewRuler: '#d97706'
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function TerminalSearchBar({ searchAddon, onClose }: TerminalSearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [query, setQuery] = useState('')
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [regex, setRegex] = useState(false)
+  const [results, setResults] = useState<SearchResults | null>(null)
+
+  const isInvalid = regex && query !== '' && !isValidRegex(query)
+  const options: ISearchOptions = { caseSensitive, wholeWord, regex, decorations: SEARCH_DECORATIONS }
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    const subscription = searchAddon.onDidChangeResults(setResults)
+    return () => {
+      subscription.dispose()
+      searchAddon.clearDecorations()
+    }
+  }, [searchAddon])
+
+  // Search as the user types or toggles an option
+  useEffect(() => {
+    if (!query || isInvalid) {
+      searchAddon.clearDecorations()
+      setResults(null)
+      return
+    }
+    searchAddon.findNext(query, { ...options, incremental: true })
+  }, [query, caseSensitive, wholeWord, regex])
+
+  const findNext = () => {
+    if (query && !isInvalid) searchAddon.findNext(query, options)
+  }
+
+  const findPrevious = () => {
+    if (query && !isInvalid) searchAddon.findPrevious(query, options)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        findPrevious()
+      } else {
+        findNext()
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  let countLabel = ''
+  if (isInvalid) {
+    countLabel = 'Invalid regex'
+  } else if (query && results) {
+    if (results.resultCount === 0) {
+      countLabel = 'No results'
+    } else if (results.resultIndex === -1) {
+      // Past the highlight limit the addon no longer reports an index
+      countLabel = `${results.resultCount}+`
+    } else {
+      countLabel = `${results.resultIndex + 1} of ${results.resultCount}`
+    }
+  }
+
+  return (
+    <div className="terminal-search-bar" onMouseDown={e => e.stopPropagation()}>
+      <input
+        ref={inputRef}
+        type="text"
+        className={isInvalid ? 'invalid' : ''}
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find"
+      />
+      <button
+        className={`search-option ${caseSensitive ? 'active' : ''}`}
+        onClick={() => setCaseSensitive(!caseSensitive)}
+        title="Match case"
+      >
+        Aa
+      </button>
+      <button
+        className={`search-option ${wholeWord ? 'active' : ''}`}
+        onClick={() => setWholeWord(!wholeWord)}
+        title="Match whole word"
+      >
+        ab
+      </button>
+      <button
+        className={`search-option ${regex ? 'active' : ''}`}
+        onClick={() => setRegex(!regex)}
+        title="Use regular expression"
+      >
+        .*
+      </button>
+      <span className="search-count">{countLabel}</span>
+      <button className="search-nav" onClick={findPrevious} title="Previous match (Shift+Enter)">↑</button>
+      <button className="search-nav" onClick={findNext} title="Next match (Enter)">↓</button>
+      <button className="search-nav" onClick={onClose} title="Close (Escape)">×</button>
+    </div>
+  )
+}
@@ -1,25 +1,13 @@
 import { useEffect, useState } from 'react'
 import type { TerminalInstance } from '../types'
+import { scrollbackStore } from '../stores/scrollback-store'
 import { ActivityIndicator } from './ActivityIndicator'
+import { ExitStatusBadge } from './ExitStatusBadge'
+import { useBroadcastTargets } from './BroadcastIndicator'
 
-// Global preview cache - persists across component unmounts
-const previewCache = new Map<string, string>()
+const PREVIEW_LINES = 8
 
-// Global listener setup - only once
-let globalListenerSetup = false
-const setupGlobalListener = () => {
-  if (globalListenerSetup) return
-  globalListenerSetup = true
-
-  window.electronAPI.pty.onOutput((id, data) => {
-    const prev = previewCache.get(id) || ''
-    const combined = prev + data
-    // Keep last 8 lines, clean ANSI codes for readability
-    const cleaned = combined.replace(/\x1b\[[0-9;]*m/g, '')
-    const lines = cleaned.split('\n').slice(-8)
-    previewCache.set(id, lines.join('\n'))
-  })
-}
+const getPreview = (id: string) => scrollbackStore.tailLines(id, PREVIEW_LINES).join('\n')
 
 interface TerminalThumbnailProps {
   terminal: TerminalInstance
@@ -28,16 +16,14 @@ interface TerminalThumbnailProps {
 }
 
 export function TerminalThumbnail({ terminal, isActive, onClick }: TerminalThumbnailProps) {
-  const [preview, setPreview] = useState<string>(previewCache.get(terminal.id) || '')
+  const [preview, setPreview] = useState<string>(getPreview(terminal.id))
   const isClaudeCode = terminal.type === 'claude-code'
+  const isBroadcastTarget = useBroadcastTargets().has(terminal.id)
 
   useEffect(() => {
-    setupGlobalListener()
-
-    // Poll for updates from cache
+    // Poll the tail of the scrollback
     const interval = setInterval(() => {
-      const cached = previewCache.get(terminal.id) || ''
-      setPreview(cached)
+      setPreview(getPreview(terminal.id))
     }, 500)
 
     return () => clearInterval(interval)
@@ -45,15 +31,19 @@ export function TerminalThumbnail({ terminal, isActive, onClick }: TerminalThumb
 
   return (
     <div
-      className={`thumbnail ${isActive ? 'active' : ''} ${isClaudeCode ? 'claude-code' : ''}`}
+      className={`thumbnail ${isActive ? 'active' : ''} ${isClaudeCode ? 'claude-code' : ''} ${isBroadcastTarget ? 'broadcasting' : ''}`}
       onClick={onClick}
     >
       <div className="thumbnail-header">
         <div className={`thumbnail-title ${isClaudeCode ? 'claude-code' : ''}`}>
           {isClaudeCode && <span>✦</span>}
           <span>{terminal.title}</span>
+          {isBroadcastTarget && <span className="thumbnail-broadcast" title="Receiving broadcast input">⇶</span>}
+        </div>
+        <div className="thumbnail-status">
+          <ExitStatusBadge terminal={terminal} />
+          <ActivityIndicator terminalId={terminal.id} size="small" showLabel />
         </div>
-        <ActivityIndicator terminalId={terminal.id} size="small" />
       </div>
       <div className="thumbnail-preview">
         {preview || '$ _'}
@@ -1,29 +1,71 @@
-import type { TerminalInstance } from '../types'
+import { useEffect, useState } from 'react'
+import type { ShellProfile, TerminalInstance } from '../types'
+import { shellProfileStore } from '../stores/shell-profile-store'
 import { TerminalThumbnail } from './TerminalThumbnail'
 
 interface ThumbnailBarProps {
   terminals: TerminalInstance[]
   focusedTerminalId: string | null
   onFocus: (id: string) => void
-  onAddTerminal?: () => void
-  showAddButton: boolean
+  onAddTerminal: (shellProfile?: ShellProfile) => void
+  onAddAgent: () => void
+  onRunAllTasks?: () => void
+  onStopAllTasks?: () => void
 }
 
+const DEFAULT_PROFILE_ICON = '❯'
+
 export function ThumbnailBar({
   terminals,
   focusedTerminalId,
   onFocus,
   onAddTerminal,
-  showAddButton
+  onAddAgent,
+  onRunAllTasks,
+  onStopAllTasks
 }: ThumbnailBarProps) {
-  const label = terminals.length > 0 && terminals[0].type === 'claude-code'
-    ? 'Claude Code'
-    : 'Terminals'
+  const [profiles, setProfiles] = useState<ShellProfile[]>(shellProfileStore.getProfiles())
+  const [profileMenu, setProfileMenu] = useState<{ x: number; y: number } | null>(null)
+
+  useEffect(() => {
+    return shellProfileStore.subscribe(() => {
+      setProfiles(shellProfileStore.getProfiles())
+    })
+  }, [])
+
+  // Close the profile menu when clicking outside
+  useEffect(() => {
+    if (!profileMenu) return
+    const handleClickOutside = () => setProfileMenu(null)
+    document.addEventListener('click', handleClickOutside)
+    return () => document.removeEventListener('click', handleClickOutside)
+  }, [profileMenu])
+
+  const agentCount = terminals.filter(t => t.type === 'claude-code').length
+  const label = agentCount === 0
+    ? 'Terminals'
+    : agentCount === terminals.length ? 'Agents' : 'Agents & Terminals'
+
+  const handleOpenProfileMenu = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const rect = e.currentTarget.getBoundingClientRect()
+    setProfileMenu(profileMenu ? null : { x: rect.left, y: rect.top })
+  }
 
   return (
     <div className="thumbnail-bar">
       <div className="thumbnail-bar-header">
         <span>{label}</span>
+        {onRunAllTasks && onStopAllTasks && (
+          <div className="task-controls">
+            <button className="task-control-btn" onClick={onRunAllTasks} title="Start or restart every startup task">
+              ▶ Run All
+            </button>
+            <button className="task-control-btn" onClick={onStopAllTasks} title="Interrupt every startup task">
+              ■ Stop All
+            </button>
+          </div>
+        )}
       </div>
       <div className="thumbnail-list">
         {terminals.map(terminal => (
@@ -34,12 +76,41 @@ export function ThumbnailBar({
             onClick={() => onFocus(terminal.id)}
           />
         ))}
-        {showAddButton && onAddTerminal && (
-          <button className="add-terminal-btn" onClick={onAddTerminal}>
+        <div className="add-terminal-group">
+          <button className="add-terminal-btn" onClick={() => onAddTerminal()} title="New terminal with the default shell">
             +
           </button>
-        )}
+          {profiles.length > 1 && (
+            <button className="add-terminal-menu-btn" onClick={handleOpenProfileMenu} title="New terminal with…">
+              ▾
+            </button>
+          )}
+          <button className="add-terminal-btn add-agent-btn" onClick={onAddAgent} title="New agent">
+            ✦
+          </button>
+        </div>
       </div>
+      {profileMenu && (
+        <div
+          className="context-menu shell-profile-menu"
+          style={{ position: 'fixed', left: profileMenu.x, bottom: window.innerHeight - profileMenu.y + 4, zIndex: 1000 }}
+        >
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              className="context-menu-item"
+              onClick={() => {
+                setProfileMenu(null)
+                onAddTerminal(profile)
+              }}
+              title={profile.path}
+            >
+              <span className="shell-profile-icon">{profile.icon || DEFAULT_PROFILE_ICON}</span>
+              {profile.name}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
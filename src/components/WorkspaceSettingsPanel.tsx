@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react'
+import type { Workspace, AppSettings, ShellProfile } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { settingsStore } from '../stores/settings-store'
+import { shellProfileStore } from '../stores/shell-profile-store'
+import { AgentCommandEditor } from './AgentCommandEditor'
+import { EnvironmentEditor } from './EnvironmentEditor'
+import { TasksEditor } from './TasksEditor'
+
+interface WorkspaceSettingsPanelProps {
+  workspace: Workspace
+  onClose: () => void
+}
+
+export function WorkspaceSettingsPanel({ workspace, onClose }: WorkspaceSettingsPanelProps) {
+  const [settings, setSettings] = useState<AppSettings>(settingsStore.getSettings())
+  const [profiles, setProfiles] = useState<ShellProfile[]>(shellProfileStore.getProfiles())
+
+  useEffect(() => {
+    return settingsStore.subscribe(() => {
+      setSettings(settingsStore.getSettings())
+    })
+  }, [])
+
+  useEffect(() => {
+    return shellProfileStore.subscribe(() => {
+      setProfiles(shellProfileStore.getProfiles())
+    })
+  }, [])
+
+  const handleOverrideToggle = (override: boolean) => {
+    workspaceStore.setWorkspaceAgentCommand(
+      workspace.id,
+      override ? { ...settings.agentCommand } : undefined
+    )
+  }
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>{workspace.alias || workspace.name}</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="settings-section">
+            <h3>Shell</h3>
+            <div className="settings-group">
+              <label>Default Shell for New Terminals</label>
+              <select
+                value={workspace.shellProfileId ?? ''}
+                onChange={e => workspaceStore.setWorkspaceShellProfile(workspace.id, e.target.value || undefined)}
+              >
+                <option value="">App default ({shellProfileStore.getDefaultProfile()?.name ?? 'system default'})</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <h3>Startup Tasks</h3>
+            <TasksEditor workspace={workspace} />
+          </div>
+
+          <div className="settings-section">
+            <h3>Environment</h3>
+            <EnvironmentEditor workspace={workspace} />
+          </div>
+
+          <div className="settings-section">
+            <h3>Agent</h3>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={!!workspace.agentCommand}
+                  onChange={e => handleOverrideToggle(e.target.checked)}
+                />
+                Override global agent command
+              </label>
+            </div>
+            {workspace.agentCommand && (
+              <AgentCommandEditor
+                value={workspace.agentCommand}
+                onChange={agentCommand => workspaceStore.setWorkspaceAgentCommand(workspace.id, agentCommand)}
+              />
+            )}
+          </div>
+
+          <div className="settings-section">
+            <h3>Notifications</h3>
+            <div className="settings-group">
+              <label className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={!workspace.notificationsMuted}
+                  onChange={e => workspaceStore.setWorkspaceNotificationsMuted(workspace.id, !e.target.checked)}
+                />
+                Notify when this workspace's agents need input or finish
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <p className="settings-note">{workspace.folderPath}</p>
+        </div>
+      </div>
+    </div>
+  )
+}
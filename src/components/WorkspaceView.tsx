@@ -1,11 +1,31 @@
-import { useEffect, useCallback, useState } from 'react'
-import type { Workspace, TerminalInstance } from '../types'
+import { useEffect, useCallback, useMemo, useState, useRef } from 'react'
+import type { Workspace, TerminalInstance, PaneLayout, SplitDirection, ShellProfile, StartupTask, RestartPolicy, AgentCommand } from '../types'
 import { workspaceStore } from '../stores/workspace-store'
 import { settingsStore } from '../stores/settings-store'
+import { shellProfileStore } from '../stores/shell-profile-store'
+import { commandRegistry } from '../stores/command-registry'
+import { keybindingDispatcher } from '../stores/keybinding-dispatcher'
+import type { Command } from '../stores/command-registry'
+import { getLaunchOptions, launchTerminal } from '../utils/terminal-launcher'
+import { getWorkspaceTasks, runAllTasks, runTask, stopAllTasks } from '../utils/workspace-tasks'
+import {
+  computePaneRects,
+  findNeighborPane,
+  getLayoutTerminalIds,
+  pruneLayout,
+  removePane,
+  replacePane,
+  setSplitRatio,
+  splitPane
+} from '../utils/pane-layout'
+import type { PaneRect, LayoutDivider, FocusDirection } from '../utils/pane-layout'
 import { TerminalPanel } from './TerminalPanel'
 import { ThumbnailBar } from './ThumbnailBar'
 import { CloseConfirmDialog } from './CloseConfirmDialog'
+import { AgentDialog } from './AgentDialog'
 import { ActivityIndicator } from './ActivityIndicator'
+import { ExitStatusBadge, RESTART_POLICY_LABELS } from './ExitStatusBadge'
+import { BroadcastIndicator, useBroadcastTargets } from './BroadcastIndicator'
 
 interface WorkspaceViewProps {
   workspace: Workspace
@@ -13,75 +33,101 @@ interface WorkspaceViewProps {
   focusedTerminalId: string | null
 }
 
-// Helper to get shell path from settings
-async function getShellFromSettings(): Promise<string | undefined> {
-  const settings = settingsStore.getSettings()
-  if (settings.shell === 'custom' && settings.customShellPath) {
-    return settings.customShellPath
+function toPercent(value: number): string {
+  return `${value * 100}%`
+}
+
+function getPaneStyle(rect: PaneRect): React.CSSProperties {
+  return {
+    left: toPercent(rect.x),
+    top: toPercent(rect.y),
+    right: toPercent(1 - rect.x - rect.width),
+    bottom: toPercent(1 - rect.y - rect.height)
   }
-  return window.electronAPI.settings.getShellPath(settings.shell)
+}
+
+function getDividerStyle(divider: LayoutDivider): React.CSSProperties {
+  const { rect, position } = divider
+  return divider.direction === 'horizontal'
+    ? { left: `calc(${toPercent(rect.x + position)} - 3px)`, top: toPercent(rect.y), height: toPercent(rect.height) }
+    : { top: `calc(${toPercent(rect.y + position)} - 3px)`, left: toPercent(rect.x), width: toPercent(rect.width) }
 }
 
 export function WorkspaceView({ workspace, terminals, focusedTerminalId }: WorkspaceViewProps) {
   const [showCloseConfirm, setShowCloseConfirm] = useState<string | null>(null)
+  // Agent being edited, or null while a new one is named
+  const [agentDialog, setAgentDialog] = useState<{ agentId: string | null } | null>(null)
+  // Layout while a divider is dragged, committed to the store on release
+  const [dragLayout, setDragLayout] = useState<PaneLayout | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const broadcastTargets = useBroadcastTargets()
 
-  const claudeCode = terminals.find(t => t.type === 'claude-code')
-  const regularTerminals = terminals.filter(t => t.type === 'terminal')
+  // Stable between renders, the command provider below depends on them
+  const agents = useMemo(() => terminals.filter(t => t.type === 'claude-code'), [terminals])
+  const regularTerminals = useMemo(() => terminals.filter(t => t.type === 'terminal'), [terminals])
+  const hasAgent = agents.length > 0
 
   const focusedTerminal = terminals.find(t => t.id === focusedTerminalId)
-  const isClaudeCodeFocused = focusedTerminal?.type === 'claude-code'
 
-  // Initialize Claude Code terminal when workspace loads
+  // Every workspace starts with one agent
   useEffect(() => {
-    if (!claudeCode) {
-      const createClaudeCode = async () => {
-        const terminal = workspaceStore.addTerminal(workspace.id, 'claude-code')
-        const shell = await getShellFromSettings()
-        window.electronAPI.pty.create({
-          id: terminal.id,
-          cwd: workspace.folderPath,
-          type: 'claude-code',
-          shell
-        })
-      }
-      createClaudeCode()
+    if (!hasAgent) {
+      const terminal = workspaceStore.addTerminal(workspace.id, 'claude-code')
+      launchTerminal(terminal, workspace)
     }
-  }, [workspace.id, claudeCode])
+  }, [workspace.id, hasAgent])
 
-  // Auto-create first terminal if none exists
+  // Startup tasks of the workspace, from its settings or project file
+  const [tasks, setTasks] = useState<StartupTask[]>([])
   useEffect(() => {
-    if (regularTerminals.length === 0 && claudeCode) {
-      const createTerminal = async () => {
+    let cancelled = false
+    getWorkspaceTasks(workspace).then(loaded => {
+      if (!cancelled) setTasks(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspace.folderPath, workspace.tasks])
+
+  // Start the tasks, or a plain first terminal, when there are no terminals yet
+  const startingRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (regularTerminals.length > 0 || !hasAgent || startingRef.current === workspace.id) return
+    startingRef.current = workspace.id
+    getWorkspaceTasks(workspace).then(async loaded => {
+      if (loaded.length > 0) {
+        await runAllTasks(workspace, loaded)
+      } else {
         const terminal = workspaceStore.addTerminal(workspace.id, 'terminal')
-        const shell = await getShellFromSettings()
-        window.electronAPI.pty.create({
-          id: terminal.id,
-          cwd: workspace.folderPath,
-          type: 'terminal',
-          shell
-        })
+        await launchTerminal(terminal, workspace)
       }
-      createTerminal()
-    }
-  }, [workspace.id, regularTerminals.length, claudeCode])
+    }).finally(() => {
+      startingRef.current = null
+    })
+  }, [workspace.id, regularTerminals.length, hasAgent])
 
   // Set default focus
+  const firstAgentId = agents[0]?.id
   useEffect(() => {
-    if (!focusedTerminalId && claudeCode) {
-      workspaceStore.setFocusedTerminal(claudeCode.id)
+    if (!focusedTerminalId && firstAgentId) {
+      workspaceStore.setFocusedTerminal(firstAgentId)
     }
-  }, [focusedTerminalId, claudeCode])
+  }, [focusedTerminalId, firstAgentId])
 
-  const handleAddTerminal = useCallback(async () => {
-    const terminal = workspaceStore.addTerminal(workspace.id, 'terminal')
-    const shell = await getShellFromSettings()
-    window.electronAPI.pty.create({
-      id: terminal.id,
-      cwd: workspace.folderPath,
-      type: 'terminal',
-      shell
-    })
-  }, [workspace.id, workspace.folderPath])
+  const handleAddTerminal = useCallback((shellProfile?: ShellProfile) => {
+    const terminal = workspaceStore.addTerminal(workspace.id, 'terminal', { shellProfile })
+    launchTerminal(terminal, workspace)
+  }, [workspace])
+
+  const handleSaveAgent = useCallback((title: string, agentCommand: AgentCommand | undefined) => {
+    if (agentDialog?.agentId) {
+      workspaceStore.updateTerminalAgent(agentDialog.agentId, title, agentCommand)
+    } else {
+      const terminal = workspaceStore.addTerminal(workspace.id, 'claude-code', { title, agentCommand })
+      launchTerminal(terminal, workspace)
+    }
+    setAgentDialog(null)
+  }, [agentDialog, workspace])
 
   const handleCloseTerminal = useCallback((id: string) => {
     const terminal = terminals.find(t => t.id === id)
@@ -105,83 +151,326 @@ export function WorkspaceView({ workspace, terminals, focusedTerminalId }: Works
     const terminal = terminals.find(t => t.id === id)
     if (terminal) {
       const cwd = await window.electronAPI.pty.getCwd(id) || terminal.cwd
-      const shell = await getShellFromSettings()
-      await window.electronAPI.pty.restart(id, cwd, shell)
       workspaceStore.updateTerminalCwd(id, cwd)
+      // Hosts that never ran the terminal, e.g. after the session daemon went away, start it fresh
+      if (!await window.electronAPI.pty.restart(id, getLaunchOptions(terminal, workspace, cwd))) {
+        await launchTerminal({ ...terminal, cwd }, workspace)
+      }
     }
-  }, [terminals])
+  }, [terminals, workspace])
+
+  const handleRestartPolicyChange = useCallback((id: string, policy: RestartPolicy) => {
+    workspaceStore.setTerminalRestartPolicy(id, policy)
+    window.electronAPI.pty.setRestartPolicy(id, policy)
+  }, [])
+
+  const handleToggleRecording = useCallback(async (terminal: TerminalInstance) => {
+    if (terminal.isRecording) {
+      await window.electronAPI.recording.stop(terminal.id)
+      workspaceStore.setTerminalRecording(terminal.id, false)
+      return
+    }
+    const filePath = await window.electronAPI.recording.start(terminal.id, {
+      title: terminal.alias || terminal.title,
+      recordInput: settingsStore.getSettings().recordInput
+    })
+    if (filePath) {
+      workspaceStore.setTerminalRecording(terminal.id, true)
+    }
+  }, [])
 
   const handleFocus = useCallback((id: string) => {
     workspaceStore.setFocusedTerminal(id)
   }, [])
 
-  // Determine what to show in thumbnail bar
-  const mainTerminal = focusedTerminal || claudeCode
-  const thumbnailTerminals = isClaudeCodeFocused
-    ? regularTerminals
-    : (claudeCode ? [claudeCode] : [])
+  // Without a split layout the main panel shows the focused terminal
+  const mainTerminal = focusedTerminal || agents[0]
+  const prunedLayout = workspace.layout ? pruneLayout(workspace.layout, terminals.map(t => t.id)) : null
+  const splitLayout = dragLayout ?? (prunedLayout?.type === 'split' ? prunedLayout : null)
+  const layout: PaneLayout | null = splitLayout ?? (mainTerminal ? { type: 'pane', terminalId: mainTerminal.id } : null)
+  const { panes, dividers } = layout
+    ? computePaneRects(layout)
+    : { panes: new Map<string, PaneRect>(), dividers: [] }
+  const focusedPaneId = focusedTerminalId && panes.has(focusedTerminalId) ? focusedTerminalId : mainTerminal?.id
+
+  // Keep focus on a visible pane while split
+  useEffect(() => {
+    if (!splitLayout) return
+    const paneIds = getLayoutTerminalIds(splitLayout)
+    if (!focusedTerminalId || !paneIds.includes(focusedTerminalId)) {
+      workspaceStore.setFocusedTerminal(paneIds[0])
+    }
+  }, [splitLayout, focusedTerminalId])
+
+  // Move focus between panes, Ctrl+Alt+Arrow by default
+  useEffect(() => {
+    if (!splitLayout) return
+    const focusNeighbor = (direction: FocusDirection) => {
+      const neighbor = focusedTerminalId && findNeighborPane(splitLayout, focusedTerminalId, direction)
+      if (!neighbor) return false
+      workspaceStore.setFocusedTerminal(neighbor)
+    }
+    return keybindingDispatcher.register({
+      'pane.focusLeft': () => focusNeighbor('left'),
+      'pane.focusRight': () => focusNeighbor('right'),
+      'pane.focusUp': () => focusNeighbor('up'),
+      'pane.focusDown': () => focusNeighbor('down')
+    })
+  }, [splitLayout, focusedTerminalId])
+
+  const handleSplit = useCallback((terminalId: string, direction: SplitDirection) => {
+    const baseLayout: PaneLayout = splitLayout ?? { type: 'pane', terminalId }
+    const terminal = workspaceStore.addTerminal(workspace.id, 'terminal')
+    launchTerminal(terminal, workspace)
+    workspaceStore.setWorkspaceLayout(workspace.id, splitPane(baseLayout, terminalId, terminal.id, direction))
+    workspaceStore.setFocusedTerminal(terminal.id)
+  }, [splitLayout, workspace])
+
+  // Take a terminal out of the split, it stays available as a thumbnail
+  const handleHidePane = useCallback((terminalId: string) => {
+    if (!splitLayout) return
+    const layout = removePane(splitLayout, terminalId) ?? undefined
+    workspaceStore.setWorkspaceLayout(workspace.id, layout)
+    const remaining = layout ? getLayoutTerminalIds(layout) : []
+    if (remaining.length === 1) {
+      workspaceStore.setFocusedTerminal(remaining[0])
+    }
+  }, [splitLayout, workspace.id])
+
+  // In a split layout the clicked thumbnail takes over the focused pane
+  const handleThumbnailClick = useCallback((id: string) => {
+    if (splitLayout && focusedTerminalId && panes.has(focusedTerminalId)) {
+      workspaceStore.setWorkspaceLayout(workspace.id, replacePane(splitLayout, focusedTerminalId, id))
+    }
+    workspaceStore.setFocusedTerminal(id)
+  }, [splitLayout, focusedTerminalId, panes, workspace.id])
+
+  const handleDividerMouseDown = useCallback((divider: LayoutDivider, e: React.MouseEvent) => {
+    if (!splitLayout || !containerRef.current) return
+    e.preventDefault()
+
+    const bounds = containerRef.current.getBoundingClientRect()
+    let latest: PaneLayout = splitLayout
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const ratio = divider.direction === 'horizontal'
+        ? ((event.clientX - bounds.left) / bounds.width - divider.rect.x) / divider.rect.width
+        : ((event.clientY - bounds.top) / bounds.height - divider.rect.y) / divider.rect.height
+      latest = setSplitRatio(latest, divider.path, ratio)
+      setDragLayout(latest)
+    }
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+      workspaceStore.setWorkspaceLayout(workspace.id, latest)
+      setDragLayout(null)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }, [splitLayout, workspace.id])
+
+  // Palette commands acting on the focused terminal of this workspace
+  const focusedPaneTerminal = terminals.find(t => t.id === focusedPaneId)
+  useEffect(() => {
+    return commandRegistry.register(() => {
+      const commands: Command[] = [
+        { id: 'terminal.new', category: 'Terminal', title: 'New Terminal', run: () => handleAddTerminal() },
+        { id: 'agent.new', category: 'Agent', title: 'New Agent…', run: () => setAgentDialog({ agentId: null }) },
+        ...agents.map(agent => ({
+          id: `agent.focus.${agent.id}`,
+          category: 'Go to Agent',
+          title: agent.alias || agent.title,
+          run: () => handleThumbnailClick(agent.id)
+        })),
+        ...shellProfileStore.getProfiles().map(profile => ({
+          id: `terminal.newWithProfile.${profile.id}`,
+          category: 'New Terminal',
+          title: profile.name,
+          detail: profile.path,
+          run: () => handleAddTerminal(profile)
+        })),
+        ...tasks.map(task => ({
+          id: `task.run.${task.name}`,
+          category: 'Run Task',
+          title: task.name,
+          detail: task.command,
+          run: () => runTask(workspace, task)
+        }))
+      ]
+      if (tasks.length > 0) {
+        commands.push(
+          { id: 'tasks.runAll', category: 'Tasks', title: 'Run All Tasks', run: () => runAllTasks(workspace, tasks) },
+          { id: 'tasks.stopAll', category: 'Tasks', title: 'Stop All Tasks', run: () => stopAllTasks(workspace) }
+        )
+      }
+      if (focusedPaneTerminal) {
+        const { id } = focusedPaneTerminal
+        if (focusedPaneTerminal.type === 'claude-code') {
+          commands.push({ id: 'agent.edit', category: 'Agent', title: 'Edit Agent…', run: () => setAgentDialog({ agentId: id }) })
+        }
+        commands.push(
+          { id: 'terminal.close', category: 'Terminal', title: 'Close Terminal', run: () => handleCloseTerminal(id) },
+          { id: 'terminal.restart', category: 'Terminal', title: 'Restart Terminal', run: () => handleRestart(id) },
+          { id: 'terminal.splitRight', category: 'Terminal', title: 'Split Right', run: () => handleSplit(id, 'horizontal') },
+          { id: 'terminal.splitDown', category: 'Terminal', title: 'Split Down', run: () => handleSplit(id, 'vertical') },
+          {
+            id: 'terminal.toggleRecording',
+            category: 'Terminal',
+            title: focusedPaneTerminal.isRecording ? 'Stop Recording' : 'Record Session…',
+            run: () => handleToggleRecording(focusedPaneTerminal)
+          },
+          ...(Object.keys(RESTART_POLICY_LABELS) as RestartPolicy[]).map(policy => ({
+            id: `terminal.restartPolicy.${policy}`,
+            category: 'Restart Policy',
+            title: RESTART_POLICY_LABELS[policy],
+            run: () => handleRestartPolicyChange(id, policy)
+          }))
+        )
+      }
+      return commands
+    })
+  }, [agents, focusedPaneTerminal, handleAddTerminal, handleCloseTerminal, handleRestart, handleRestartPolicyChange, handleSplit, handleThumbnailClick, handleToggleRecording, tasks, workspace])
+
+  // Everything not on screen goes to the thumbnail bar, agents first
+  const thumbnailTerminals = [...agents, ...regularTerminals].filter(t => !panes.has(t.id))
+  const closingTerminal = terminals.find(t => t.id === showCloseConfirm)
+  const editedAgent = terminals.find(t => t.id === agentDialog?.agentId)
 
   return (
     <div className="workspace-view">
       {/* Render ALL terminals, show/hide with CSS - keeps processes running */}
-      <div className="terminals-container">
-        {terminals.map(terminal => (
-          <div
-            key={terminal.id}
-            className={`terminal-wrapper ${terminal.id === mainTerminal?.id ? 'active' : 'hidden'}`}
-          >
-            <div className="main-panel">
-              <div className="main-panel-header">
-                <div className={`main-panel-title ${terminal.type === 'claude-code' ? 'claude-code' : ''}`}>
-                  {terminal.type === 'claude-code' && <span>✦</span>}
-                  <span>{terminal.title}</span>
+      <div className="terminals-container" ref={containerRef}>
+        {terminals.map(terminal => {
+          const rect = panes.get(terminal.id)
+          const paneClass = splitLayout ? `split-pane ${terminal.id === focusedPaneId ? 'focused' : ''}` : ''
+          return (
+            <div
+              key={terminal.id}
+              className={`terminal-wrapper ${rect ? 'active' : 'hidden'} ${paneClass} ${broadcastTargets.has(terminal.id) ? 'broadcasting' : ''}`}
+              style={rect ? getPaneStyle(rect) : undefined}
+              onMouseDown={() => rect && handleFocus(terminal.id)}
+            >
+              <div className="main-panel">
+                <div className="main-panel-header">
+                  <div className={`main-panel-title ${terminal.type === 'claude-code' ? 'claude-code' : ''}`}>
+                    {terminal.type === 'claude-code' && <span>✦</span>}
+                    <span>{terminal.title}</span>
+                    <span className="main-panel-cwd" title={terminal.cwd}>{terminal.cwd}</span>
+                  </div>
+                  <div className="main-panel-actions">
+                    {broadcastTargets.has(terminal.id) && <BroadcastIndicator count={broadcastTargets.size} />}
+                    <ActivityIndicator
+                      terminalId={terminal.id}
+                      size="small"
+                      showLabel
+                    />
+                    <ExitStatusBadge
+                      terminal={terminal}
+                      onPolicyChange={policy => handleRestartPolicyChange(terminal.id, policy)}
+                    />
+                    {terminal.type === 'claude-code' && (
+                      <button
+                        className="action-btn"
+                        onClick={() => setAgentDialog({ agentId: terminal.id })}
+                        title="Rename agent or change its launch command"
+                      >
+                        ✎
+                      </button>
+                    )}
+                    <button
+                      className="action-btn"
+                      onClick={() => handleSplit(terminal.id, 'horizontal')}
+                      title="Split right"
+                    >
+                      ◧
+                    </button>
+                    <button
+                      className="action-btn"
+                      onClick={() => handleSplit(terminal.id, 'vertical')}
+                      title="Split down"
+                    >
+                      ⬓
+                    </button>
+                    {splitLayout && (
+                      <button
+                        className="action-btn"
+                        onClick={() => handleHidePane(terminal.id)}
+                        title="Remove from split"
+                      >
+                        ▭
+                      </button>
+                    )}
+                    <button
+                      className={`action-btn ${terminal.isRecording ? 'recording' : ''}`}
+                      onClick={() => handleToggleRecording(terminal)}
+                      title={terminal.isRecording ? 'Stop recording' : 'Record session'}
+                    >
+                      ⏺
+                    </button>
+                    <button
+                      className="action-btn"
+                      onClick={() => handleRestart(terminal.id)}
+                      title="Restart terminal"
+                    >
+                      ⟳
+                    </button>
+                    <button
+                      className="action-btn danger"
+                      onClick={() => handleCloseTerminal(terminal.id)}
+                      title="Close terminal"
+                    >
+                      ×
+                    </button>
+                  </div>
                 </div>
-                <div className="main-panel-actions">
-                  <ActivityIndicator
+                <div className="main-panel-content">
+                  <TerminalPanel
                     terminalId={terminal.id}
-                    size="small"
+                    isActive={!!rect}
+                    isFocused={terminal.id === focusedPaneId}
                   />
-                  <button
-                    className="action-btn"
-                    onClick={() => handleRestart(terminal.id)}
-                    title="Restart terminal"
-                  >
-                    ⟳
-                  </button>
-                  <button
-                    className="action-btn danger"
-                    onClick={() => handleCloseTerminal(terminal.id)}
-                    title="Close terminal"
-                  >
-                    ×
-                  </button>
                 </div>
               </div>
-              <div className="main-panel-content">
-                <TerminalPanel
-                  terminalId={terminal.id}
-                  isActive={terminal.id === mainTerminal?.id}
-                />
-              </div>
             </div>
-          </div>
+          )
+        })}
+        {dividers.map(divider => (
+          <div
+            key={divider.path}
+            className={`pane-divider ${divider.direction}`}
+            style={getDividerStyle(divider)}
+            onMouseDown={(e) => handleDividerMouseDown(divider, e)}
+          />
         ))}
       </div>
 
       <ThumbnailBar
         terminals={thumbnailTerminals}
         focusedTerminalId={focusedTerminalId}
-        onFocus={handleFocus}
-        onAddTerminal={isClaudeCodeFocused ? handleAddTerminal : undefined}
-        showAddButton={isClaudeCodeFocused}
+        onFocus={handleThumbnailClick}
+        onAddTerminal={handleAddTerminal}
+        onAddAgent={() => setAgentDialog({ agentId: null })}
+        onRunAllTasks={tasks.length > 0 ? () => runAllTasks(workspace, tasks) : undefined}
+        onStopAllTasks={tasks.length > 0 ? () => stopAllTasks(workspace) : undefined}
       />
 
-      {showCloseConfirm && (
+      {closingTerminal && (
         <CloseConfirmDialog
+          agentName={closingTerminal.alias || closingTerminal.title}
           onConfirm={handleConfirmClose}
           onCancel={() => setShowCloseConfirm(null)}
         />
       )}
+      {agentDialog && (
+        <AgentDialog
+          workspace={workspace}
+          agent={editedAgent}
+          onSave={handleSaveAgent}
+          onCancel={() => setAgentDialog(null)}
+        />
+      )}
     </div>
   )
 }
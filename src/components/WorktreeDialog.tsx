@@ -0,0 +1,125 @@
+import { useState } from 'react'
+import type { Workspace } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { createAgentWorktree, mergeAgentWorktree, removeAgentWorktree } from '../utils/worktrees'
+import { useGitStatus } from './GitStatusBadge'
+
+interface WorktreeDialogProps {
+  workspace: Workspace
+  onClose: () => void
+}
+
+function getDefaultBranch(): string {
+  const count = workspaceStore.getState().workspaces.filter(w => w.worktree).length
+  return `agent-${count + 1}`
+}
+
+// Creates an agent worktree from a workspace, or merges back and removes a worktree workspace
+export function WorktreeDialog({ workspace, onClose }: WorktreeDialogProps) {
+  const [branch, setBranch] = useState(getDefaultBranch)
+  const [force, setForce] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [merged, setMerged] = useState(false)
+  const status = useGitStatus(workspace)
+
+  const run = async (action: () => Promise<{ error?: string }>, closeOnSuccess: boolean) => {
+    setBusy(true)
+    setError(null)
+    const result = await action()
+    setBusy(false)
+    if (result.error) {
+      setError(result.error)
+    } else if (closeOnSuccess) {
+      onClose()
+    } else {
+      setMerged(true)
+    }
+  }
+
+  const { worktree } = workspace
+  if (!worktree) {
+    return (
+      <div className="dialog-overlay" onClick={onClose}>
+        <div className="dialog worktree-dialog" onClick={e => e.stopPropagation()}>
+          <h3>New Agent Worktree</h3>
+          <p>
+            Checks out a new branch of {workspace.alias || workspace.name} in its own folder
+            and starts an agent there.
+          </p>
+          <div className="settings-group">
+            <label>Branch</label>
+            <input
+              type="text"
+              value={branch}
+              onChange={e => setBranch(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && branch.trim() && run(() => createAgentWorktree(workspace, branch.trim()), true)}
+              autoFocus
+            />
+          </div>
+          {error && <p className="settings-error">{error}</p>}
+          <div className="dialog-actions">
+            <button className="dialog-btn cancel" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className="dialog-btn primary"
+              disabled={busy || !branch.trim()}
+              onClick={() => run(() => createAgentWorktree(workspace, branch.trim()), true)}
+            >
+              Create
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const parent = workspaceStore.getState().workspaces.find(w => w.id === worktree.parentId)
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog worktree-dialog" onClick={e => e.stopPropagation()}>
+        <h3>Worktree {worktree.branch}</h3>
+        <p>
+          {status
+            ? `${status.ahead} commits ahead and ${status.behind} behind ${worktree.baseBranch}, ${status.files.length} uncommitted changes.`
+            : status === null ? 'The worktree folder is missing or no longer a git checkout.' : 'Checking status…'}
+        </p>
+        {status && status.files.length > 0 && (
+          <p className="settings-note">Only committed work is merged back.</p>
+        )}
+        {merged && (
+          <p className="settings-note">Merged into {worktree.baseBranch}{parent ? ` in ${parent.alias || parent.name}` : ''}.</p>
+        )}
+        <div className="settings-group">
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={force} onChange={e => setForce(e.target.checked)} />
+            Remove even with uncommitted changes or unmerged commits
+          </label>
+        </div>
+        {error && <p className="settings-error">{error}</p>}
+        <div className="dialog-actions">
+          <button className="dialog-btn cancel" onClick={onClose}>
+            Close
+          </button>
+          <button
+            className="dialog-btn primary"
+            disabled={busy || !parent || !status || status.ahead === 0}
+            onClick={() => run(() => mergeAgentWorktree(workspace), false)}
+            title={parent ? `Merge ${worktree.branch} into ${worktree.baseBranch} in ${parent.alias || parent.name}` : 'The parent workspace was removed'}
+          >
+            Merge Back
+          </button>
+          <button
+            className="dialog-btn confirm"
+            disabled={busy}
+            onClick={() => run(() => removeAgentWorktree(workspace, force), true)}
+          >
+            Remove Worktree
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import type { BroadcastScope, TerminalInstance } from '../types'
+import { workspaceStore } from './workspace-store'
+
+type Listener = () => void
+
+// Replies xterm sends on the program's behalf, each in its own onData call: mouse and focus events,
+// device attributes, status and cursor position reports, mode and window reports, OSC and DCS answers
+const TERMINAL_REPORT = /^\x1b(?:\[<\d+;\d+;\d+[Mm]|\[M[\s\S]{3}|\[\d+;\d+;\d+[Mt]|\[[IO]|\[\??\d+;\d+R|\[[?>=][\d;]*c|\[\d*n|\[\??[\d;]*\$y|\][\s\S]*(?:\x07|\x1b\\)|P[\s\S]*\x1b\\)$/
+
+// Terminals of the scope, agents only when asked for since they take prompts rather than commands
+export function resolveBroadcastTargets(scope: BroadcastScope, includeAgents: boolean): TerminalInstance[] {
+  const { workspaces, terminals } = workspaceStore.getState()
+  const workspaceIds = new Set(
+    workspaces
+      .filter(w => {
+        if (scope.type === 'workspace') return w.id === scope.workspaceId
+        if (scope.type === 'role') return w.role?.toLowerCase() === scope.role.toLowerCase()
+        return true
+      })
+      .map(w => w.id)
+  )
+  return terminals.filter(t => workspaceIds.has(t.workspaceId) && (includeAgents || t.type === 'terminal'))
+}
+
+// Mirrors what is typed into one target terminal to all of them
+class BroadcastStore {
+  private targetIds: Set<string> = new Set()
+  private listeners: Set<Listener> = new Set()
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  isActive(): boolean {
+    return this.targetIds.size > 0
+  }
+
+  isTarget(id: string): boolean {
+    return this.targetIds.has(id)
+  }
+
+  getTargetIds(): string[] {
+    return [...this.targetIds]
+  }
+
+  start(targetIds: string[]): void {
+    this.targetIds = new Set(targetIds)
+    this.notify()
+  }
+
+  stop(): void {
+    if (this.targetIds.size === 0) return
+    this.targetIds = new Set()
+    this.notify()
+  }
+
+  // Closed terminals stop being targets
+  prune(): void {
+    const existing = new Set(workspaceStore.getState().terminals.map(t => t.id))
+    const remaining = [...this.targetIds].filter(id => existing.has(id))
+    if (remaining.length === this.targetIds.size) return
+    this.targetIds = new Set(remaining)
+    this.notify()
+  }
+
+  // Input typed or pasted into a terminal, fanned out while that terminal is a target.
+  // Terminal reports only answer the source's own program.
+  sendInput(sourceId: string, data: string): void {
+    if (!this.targetIds.has(sourceId) || TERMINAL_REPORT.test(data)) {
+      window.electronAPI.pty.write(sourceId, data)
+      return
+    }
+    this.targetIds.forEach(id => window.electronAPI.pty.write(id, data))
+  }
+
+  // Run one command line in each terminal
+  sendCommand(targetIds: string[], command: string): void {
+    targetIds.forEach(id => window.electronAPI.pty.write(id, `${command}\r`))
+  }
+}
+
+export const broadcastStore = new BroadcastStore()
+
+workspaceStore.subscribe(() => broadcastStore.prune())
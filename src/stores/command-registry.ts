@@ -0,0 +1,34 @@
+export interface Command {
+  id: string
+  title: string
+  category: string
+  detail?: string // Extra text that is matched and shown dimmed, e.g. a workspace role
+  run: () => void
+}
+
+// Returns the commands currently available, so lists like workspaces stay up to date
+export type CommandProvider = () => Command[]
+
+class CommandRegistry {
+  private providers: Set<CommandProvider> = new Set()
+
+  register(provider: CommandProvider): () => void {
+    this.providers.add(provider)
+    return () => {
+      this.providers.delete(provider)
+    }
+  }
+
+  getCommands(): Command[] {
+    return Array.from(this.providers).flatMap(provider => provider())
+  }
+
+  execute(id: string): boolean {
+    const command = this.getCommands().find(c => c.id === id)
+    if (!command) return false
+    command.run()
+    return true
+  }
+}
+
+export const commandRegistry = new CommandRegistry()
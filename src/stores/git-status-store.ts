@@ -0,0 +1,80 @@
+import type { GitStatus } from '../types'
+
+type Listener = () => void
+
+interface FolderWatch {
+  count: number
+  compareRef?: string
+}
+
+// Git status of the watched workspace folders, pushed by the main process as files change
+class GitStatusStore {
+  private statuses: Map<string, GitStatus | null> = new Map()
+  private watches: Map<string, FolderWatch> = new Map()
+  private listeners: Set<Listener> = new Set()
+  private started = false
+
+  private start(): void {
+    if (this.started) return
+    this.started = true
+    window.electronAPI.git.onStatusChanged((folderPath, status) => {
+      if (this.watches.has(folderPath)) {
+        this.setStatus(folderPath, status)
+      }
+    })
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  // Undefined until the first status arrived, null when the folder is not a git checkout
+  getStatus(folderPath: string): GitStatus | null | undefined {
+    return this.statuses.get(folderPath)
+  }
+
+  // Keep the folder's status current until the returned function is called.
+  // Ahead and behind count against compareRef, or the upstream branch without it.
+  watch(folderPath: string, compareRef?: string): () => void {
+    this.start()
+    const existing = this.watches.get(folderPath)
+    if (existing) {
+      existing.count++
+    } else {
+      this.watches.set(folderPath, { count: 1, compareRef })
+      window.electronAPI.git.watchStatus(folderPath, compareRef).then(status => {
+        if (this.watches.has(folderPath)) {
+          this.setStatus(folderPath, status)
+        }
+      })
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      const watch = this.watches.get(folderPath)
+      if (watch && --watch.count === 0) {
+        this.watches.delete(folderPath)
+        this.statuses.delete(folderPath)
+        window.electronAPI.git.unwatchStatus(folderPath)
+      }
+    }
+  }
+
+  refresh(folderPath: string): void {
+    window.electronAPI.git.refreshStatus(folderPath)
+  }
+
+  private setStatus(folderPath: string, status: GitStatus | null): void {
+    this.statuses.set(folderPath, status)
+    this.notify()
+  }
+}
+
+export const gitStatusStore = new GitStatusStore()
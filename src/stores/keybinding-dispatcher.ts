@@ -0,0 +1,83 @@
+import type { Keybindings } from '../types'
+import { settingsStore } from './settings-store'
+import { commandRegistry } from './command-registry'
+import { eventToChord, resolveKeybindings, KEYBINDING_ACTIONS } from '../utils/keybindings'
+
+// Returns false when the action doesn't apply, so the key reaches the terminal
+export type KeybindingHandler = () => boolean | void
+
+// Routes key chords to actions for the whole app, including the focused terminal
+class KeybindingDispatcher {
+  private handlers: Map<string, Set<KeybindingHandler>> = new Map()
+  private resolvedFor: Keybindings | null = null
+  private actionsByChord: Map<string, string[]> = new Map()
+  private suspended = 0
+
+  register(handlers: Record<string, KeybindingHandler>): () => void {
+    for (const [action, handler] of Object.entries(handlers)) {
+      if (!this.handlers.has(action)) {
+        this.handlers.set(action, new Set())
+      }
+      this.handlers.get(action)!.add(handler)
+    }
+    return () => {
+      for (const [action, handler] of Object.entries(handlers)) {
+        this.handlers.get(action)?.delete(handler)
+      }
+    }
+  }
+
+  // Used while the keybinding editor records a chord
+  suspend(): () => void {
+    this.suspended++
+    return () => {
+      this.suspended--
+    }
+  }
+
+  getChord(action: string): string | null {
+    return resolveKeybindings(settingsStore.getSettings().keybindings)[action] ?? null
+  }
+
+  private getActions(chord: string): string[] {
+    const overrides = settingsStore.getSettings().keybindings
+    if (overrides !== this.resolvedFor) {
+      this.resolvedFor = overrides
+      this.actionsByChord = new Map()
+      const bindings = resolveKeybindings(overrides)
+      // Keep the catalogue order, so the first listed action wins a conflict
+      for (const { id } of KEYBINDING_ACTIONS) {
+        const bound = bindings[id]
+        if (bound) {
+          this.actionsByChord.set(bound, [...(this.actionsByChord.get(bound) ?? []), id])
+        }
+      }
+    }
+    return this.actionsByChord.get(chord) ?? []
+  }
+
+  private run(action: string): boolean {
+    const handlers = this.handlers.get(action)
+    if (handlers && handlers.size > 0) {
+      return Array.from(handlers).some(handler => handler() !== false)
+    }
+    // Actions without a dedicated handler run the palette command of the same id
+    return commandRegistry.execute(action)
+  }
+
+  handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.suspended > 0 || event.isComposing) return
+    const chord = eventToChord(event)
+    if (!chord) return
+
+    for (const action of this.getActions(chord)) {
+      if (this.run(action)) {
+        event.preventDefault()
+        event.stopPropagation()
+        return
+      }
+    }
+  }
+}
+
+export const keybindingDispatcher = new KeybindingDispatcher()
@@ -0,0 +1,74 @@
+import { ScrollbackBuffer } from '../utils/scrollback-buffer'
+import type { ScrollbackStats } from '../utils/scrollback-buffer'
+
+// Upper bound of output kept per terminal, in memory and on disk
+const SCROLLBACK_LIMITS = { maxChars: 256 * 1024, maxLines: 10000 }
+
+const RESTORED_SESSION_MARKER = '\r\n\x1b[90m[Session restored]\x1b[0m\r\n'
+
+// Output of every terminal, shared by the panels, thumbnails, search and persistence.
+// Appends don't notify, readers pull when they need the text.
+class ScrollbackStore {
+  private buffers: Map<string, ScrollbackBuffer> = new Map()
+  private dirty: Set<string> = new Set()
+
+  private getBuffer(id: string): ScrollbackBuffer {
+    let buffer = this.buffers.get(id)
+    if (!buffer) {
+      buffer = new ScrollbackBuffer(SCROLLBACK_LIMITS)
+      this.buffers.set(id, buffer)
+    }
+    return buffer
+  }
+
+  append(id: string, data: string): void {
+    this.getBuffer(id).append(data)
+    this.dirty.add(id)
+  }
+
+  getText(id: string): string {
+    return this.buffers.get(id)?.getText() ?? ''
+  }
+
+  getPlainLines(id: string): string[] {
+    return this.buffers.get(id)?.getPlainLines() ?? []
+  }
+
+  tailLines(id: string, count: number): string[] {
+    return this.buffers.get(id)?.tailLines(count) ?? []
+  }
+
+  clear(id: string): void {
+    this.buffers.get(id)?.clear()
+    this.dirty.add(id)
+  }
+
+  getStats(id: string): ScrollbackStats | null {
+    return this.buffers.get(id)?.getStats() ?? null
+  }
+
+  // Scrollback saved by an earlier run
+  async load(id: string): Promise<void> {
+    const scrollback = await window.electronAPI.scrollback.load(id)
+    if (scrollback) {
+      const buffer = this.getBuffer(id)
+      buffer.append(scrollback)
+      buffer.append(RESTORED_SESSION_MARKER)
+    }
+  }
+
+  // Write the scrollback of every terminal that produced output since the last save
+  async save(): Promise<void> {
+    const ids = [...this.dirty]
+    this.dirty.clear()
+    await Promise.all(ids.map(id => window.electronAPI.scrollback.save(id, this.getText(id))))
+  }
+
+  remove(id: string): void {
+    this.buffers.delete(id)
+    this.dirty.delete(id)
+    window.electronAPI.scrollback.delete(id)
+  }
+}
+
+export const scrollbackStore = new ScrollbackStore()
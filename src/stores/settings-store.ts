@@ -1,12 +1,36 @@
-import type { AppSettings, ShellType } from '../types'
+import type { AppSettings, AgentCommand, NotificationSettings, CursorStyle, TerminalTheme, ShellProfile, Snippet } from '../types'
+import { v4 as uuidv4 } from 'uuid'
+import { getDefaultKeybindings } from '../utils/keybindings'
+import { BUILT_IN_THEMES } from '../utils/terminal-theme'
 
 type Listener = () => void
 
 const defaultSettings: AppSettings = {
-  shell: 'auto',
-  customShellPath: '',
+  defaultShellProfile: '',
+  shellProfiles: [],
   fontSize: 14,
-  theme: 'dark'
+  fontFamily: '',
+  lineHeight: 1,
+  cursorStyle: 'block',
+  cursorBlink: true,
+  terminalTheme: 'novel',
+  customThemes: [],
+  theme: 'dark',
+  agentCommand: {
+    command: 'claude',
+    args: [],
+    env: {}
+  },
+  recordInput: false,
+  persistentSessions: false,
+  notifications: {
+    enabled: true,
+    doNotDisturb: false,
+    flashFrame: true,
+    badgeCount: true
+  },
+  keybindings: {},
+  snippets: []
 }
 
 class SettingsStore {
@@ -26,14 +50,27 @@ class SettingsStore {
     this.listeners.forEach(listener => listener())
   }
 
-  setShell(shell: ShellType): void {
-    this.settings = { ...this.settings, shell }
+  setDefaultShellProfile(id: string): void {
+    this.settings = { ...this.settings, defaultShellProfile: id }
     this.notify()
     this.save()
   }
 
-  setCustomShellPath(path: string): void {
-    this.settings = { ...this.settings, customShellPath: path }
+  // Adds the profile or replaces the one with the same id
+  saveShellProfile(profile: ShellProfile): void {
+    const exists = this.settings.shellProfiles.some(p => p.id === profile.id)
+    const shellProfiles = exists
+      ? this.settings.shellProfiles.map(p => p.id === profile.id ? profile : p)
+      : [...this.settings.shellProfiles, profile]
+    this.settings = { ...this.settings, shellProfiles }
+    this.notify()
+    this.save()
+  }
+
+  removeShellProfile(id: string): void {
+    const shellProfiles = this.settings.shellProfiles.filter(p => p.id !== id)
+    const defaultShellProfile = this.settings.defaultShellProfile === id ? '' : this.settings.defaultShellProfile
+    this.settings = { ...this.settings, shellProfiles, defaultShellProfile }
     this.notify()
     this.save()
   }
@@ -44,12 +81,131 @@ class SettingsStore {
     this.save()
   }
 
+  setFontFamily(fontFamily: string): void {
+    this.settings = { ...this.settings, fontFamily }
+    this.notify()
+    this.save()
+  }
+
+  setLineHeight(lineHeight: number): void {
+    this.settings = { ...this.settings, lineHeight }
+    this.notify()
+    this.save()
+  }
+
+  setCursorStyle(cursorStyle: CursorStyle): void {
+    this.settings = { ...this.settings, cursorStyle }
+    this.notify()
+    this.save()
+  }
+
+  setCursorBlink(cursorBlink: boolean): void {
+    this.settings = { ...this.settings, cursorBlink }
+    this.notify()
+    this.save()
+  }
+
+  // Also switches the app chrome to match the theme
+  setTerminalTheme(id: string): void {
+    const theme = [...BUILT_IN_THEMES, ...this.settings.customThemes].find(t => t.id === id)
+    if (!theme) return
+    this.settings = { ...this.settings, terminalTheme: id, theme: theme.appearance }
+    this.notify()
+    this.save()
+  }
+
+  addCustomTheme(theme: TerminalTheme): void {
+    const customThemes = [...this.settings.customThemes.filter(t => t.id !== theme.id), theme]
+    this.settings = { ...this.settings, customThemes }
+    this.setTerminalTheme(theme.id)
+  }
+
+  removeCustomTheme(id: string): void {
+    const customThemes = this.settings.customThemes.filter(t => t.id !== id)
+    const terminalTheme = this.settings.terminalTheme === id ? defaultSettings.terminalTheme : this.settings.terminalTheme
+    this.settings = { ...this.settings, customThemes, terminalTheme }
+    this.notify()
+    this.save()
+  }
+
   setTheme(theme: 'dark' | 'light'): void {
     this.settings = { ...this.settings, theme }
     this.notify()
     this.save()
   }
 
+  setAgentCommand(agentCommand: AgentCommand): void {
+    this.settings = { ...this.settings, agentCommand }
+    this.notify()
+    this.save()
+  }
+
+  setRecordInput(recordInput: boolean): void {
+    this.settings = { ...this.settings, recordInput }
+    this.notify()
+    this.save()
+  }
+
+  setPersistentSessions(persistentSessions: boolean): void {
+    this.settings = { ...this.settings, persistentSessions }
+    this.notify()
+    this.save()
+  }
+
+  setNotifications(notifications: Partial<NotificationSettings>): void {
+    this.settings = {
+      ...this.settings,
+      notifications: { ...this.settings.notifications, ...notifications }
+    }
+    this.notify()
+    this.save()
+  }
+
+  setKeybinding(action: string, chord: string | null): void {
+    const keybindings = { ...this.settings.keybindings, [action]: chord }
+    // Only keep overrides, so changed defaults reach users who never touched them
+    if (getDefaultKeybindings()[action] === chord) {
+      delete keybindings[action]
+    }
+    this.settings = { ...this.settings, keybindings }
+    this.notify()
+    this.save()
+  }
+
+  resetKeybindings(): void {
+    this.settings = { ...this.settings, keybindings: {} }
+    this.notify()
+    this.save()
+  }
+
+  // Adds the snippet or replaces the one with the same id
+  saveSnippet(snippet: Snippet): void {
+    const exists = this.settings.snippets.some(s => s.id === snippet.id)
+    const snippets = exists
+      ? this.settings.snippets.map(s => s.id === snippet.id ? snippet : s)
+      : [...this.settings.snippets, snippet]
+    this.settings = { ...this.settings, snippets }
+    this.notify()
+    this.save()
+  }
+
+  removeSnippet(id: string): void {
+    this.settings = { ...this.settings, snippets: this.settings.snippets.filter(s => s.id !== id) }
+    this.notify()
+    this.save()
+  }
+
+  // Settings before shell profiles stored 'auto', 'pwsh', 'powershell', 'cmd' or 'custom'
+  private migrateShellSetting(shell: string, customShellPath?: string): void {
+    if (shell === 'custom' && customShellPath) {
+      const profile: ShellProfile = { id: uuidv4(), name: 'Custom', path: customShellPath, args: [], env: {} }
+      this.settings = { ...this.settings, shellProfiles: [profile], defaultShellProfile: profile.id }
+    } else if (shell === 'pwsh' || shell === 'powershell' || shell === 'cmd') {
+      // Ids of the detected Windows profiles
+      this.settings = { ...this.settings, defaultShellProfile: shell }
+    }
+  }
+
   async save(): Promise<void> {
     const data = JSON.stringify(this.settings)
     await window.electronAPI.settings.save(data)
@@ -59,8 +215,15 @@ class SettingsStore {
     const data = await window.electronAPI.settings.load()
     if (data) {
       try {
-        const parsed = JSON.parse(data)
-        this.settings = { ...defaultSettings, ...parsed }
+        const { shell, customShellPath, ...parsed } = JSON.parse(data)
+        this.settings = {
+          ...defaultSettings,
+          ...parsed,
+          notifications: { ...defaultSettings.notifications, ...parsed.notifications }
+        }
+        if (shell && !('defaultShellProfile' in parsed)) {
+          this.migrateShellSetting(shell, customShellPath)
+        }
         this.notify()
       } catch (e) {
         console.error('Failed to parse settings:', e)
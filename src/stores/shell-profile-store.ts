@@ -0,0 +1,43 @@
+import type { ShellProfile } from '../types'
+import { settingsStore } from './settings-store'
+
+type Listener = () => void
+
+// Detected shells plus the user-defined profiles from settings
+class ShellProfileStore {
+  private detected: ShellProfile[] = []
+  private listeners: Set<Listener> = new Set()
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    const unsubscribeSettings = settingsStore.subscribe(listener)
+    return () => {
+      this.listeners.delete(listener)
+      unsubscribeSettings()
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  async load(): Promise<void> {
+    this.detected = await window.electronAPI.settings.detectShellProfiles()
+    this.notify()
+  }
+
+  getProfiles(): ShellProfile[] {
+    return [...this.detected, ...settingsStore.getSettings().shellProfiles]
+  }
+
+  getProfile(id: string | undefined): ShellProfile | undefined {
+    return id ? this.getProfiles().find(p => p.id === id) : undefined
+  }
+
+  // The first detected shell stands in for the system default
+  getDefaultProfile(): ShellProfile | undefined {
+    return this.getProfile(settingsStore.getSettings().defaultShellProfile) ?? this.detected[0]
+  }
+}
+
+export const shellProfileStore = new ShellProfileStore()
@@ -0,0 +1,50 @@
+type OutputListener = (id: string, data: string) => void
+
+// Writes output into a terminal and calls done once it has been parsed
+export type OutputWriter = (data: string, done: () => void) => void
+
+// Single subscriber to pty output that routes each batch to the panel of its
+// terminal and acknowledges it, so the main process can apply backpressure
+class TerminalOutputRouter {
+  private listeners: Set<OutputListener> = new Set()
+  private writers: Map<string, OutputWriter> = new Map()
+  private started = false
+
+  private start(): void {
+    if (this.started) return
+    this.started = true
+    window.electronAPI.pty.onOutput((id, data) => this.dispatch(id, data))
+  }
+
+  // Output of every terminal, listeners should be cheap
+  subscribe(listener: OutputListener): () => void {
+    this.start()
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  // The mounted panel of a terminal, output is acknowledged once it wrote it
+  setWriter(id: string, writer: OutputWriter): () => void {
+    this.start()
+    this.writers.set(id, writer)
+    return () => {
+      if (this.writers.get(id) === writer) {
+        this.writers.delete(id)
+      }
+    }
+  }
+
+  private dispatch(id: string, data: string): void {
+    this.listeners.forEach(listener => listener(id, data))
+    const ack = () => window.electronAPI.pty.ackOutput(id, data.length)
+    const writer = this.writers.get(id)
+    if (writer) {
+      writer(data, ack)
+    } else {
+      // Nothing renders it, don't hold the process back
+      ack()
+    }
+  }
+}
+
+export const terminalOutput = new TerminalOutputRouter()
@@ -0,0 +1,74 @@
+import type { Terminal } from '@xterm/xterm'
+import type { SearchAddon } from '@xterm/addon-search'
+
+// Live xterm instances of the mounted terminal panels
+export interface TerminalHandle {
+  terminal: Terminal
+  searchAddon: SearchAddon
+  paste: (text: string) => void // Sends text the way a paste does, in chunks when long
+}
+
+export interface RevealRequest {
+  match: string // Text to select
+  linesFromEnd: number // Distance of the line from the end of the output
+}
+
+class TerminalRegistry {
+  private handles: Map<string, TerminalHandle> = new Map()
+  // Reveals requested before the panel was mounted, e.g. right after switching workspace
+  private pendingReveals: Map<string, RevealRequest> = new Map()
+
+  register(id: string, handle: TerminalHandle): () => void {
+    this.handles.set(id, handle)
+
+    const pending = this.pendingReveals.get(id)
+    if (pending) {
+      this.pendingReveals.delete(id)
+      // Wait until the replayed scrollback has been parsed
+      handle.terminal.write('', () => this.revealLine(handle.terminal, pending))
+    }
+
+    return () => {
+      if (this.handles.get(id) === handle) {
+        this.handles.delete(id)
+      }
+    }
+  }
+
+  get(id: string): TerminalHandle | undefined {
+    return this.handles.get(id)
+  }
+
+  reveal(id: string, request: RevealRequest): void {
+    const handle = this.handles.get(id)
+    if (handle) {
+      this.revealLine(handle.terminal, request)
+    } else {
+      this.pendingReveals.set(id, request)
+    }
+  }
+
+  // Scroll to and select the occurrence closest to where the line is expected
+  private revealLine(terminal: Terminal, { match, linesFromEnd }: RevealRequest): void {
+    const buffer = terminal.buffer.active
+    let lastContentLine = buffer.length - 1
+    while (lastContentLine > 0 && !buffer.getLine(lastContentLine)?.translateToString(true)) {
+      lastContentLine--
+    }
+    const expectedLine = lastContentLine - linesFromEnd
+
+    let best: { line: number; column: number } | null = null
+    for (let i = 0; i < buffer.length; i++) {
+      const column = buffer.getLine(i)?.translateToString(true).indexOf(match) ?? -1
+      if (column !== -1 && (!best || Math.abs(i - expectedLine) < Math.abs(best.line - expectedLine))) {
+        best = { line: i, column }
+      }
+    }
+    if (!best) return
+
+    terminal.scrollToLine(Math.max(0, best.line - Math.floor(terminal.rows / 2)))
+    terminal.select(best.column, best.line, match.length)
+  }
+}
+
+export const terminalRegistry = new TerminalRegistry()
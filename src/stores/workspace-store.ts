@@ -1,8 +1,24 @@
 import { v4 as uuidv4 } from 'uuid'
-import type { Workspace, TerminalInstance, AppState } from '../types'
+import type { Workspace, TerminalInstance, AppState, AgentCommand, AgentState, PaneLayout, ShellProfile, StartupTask, RestartPolicy, ExitStatus } from '../types'
+import { removePane, replacePane, isSplitLayout, getLayoutTerminalIds } from '../utils/pane-layout'
+import { scrollbackStore } from './scrollback-store'
 
 type Listener = () => void
 
+export interface NewTerminalOptions {
+  shellProfile?: ShellProfile
+  task?: StartupTask
+  cwd?: string
+  title?: string
+  agentCommand?: AgentCommand
+}
+
+// Most urgent first, used to summarize a workspace with several agents
+const AGENT_STATE_PRIORITY: AgentState[] = ['waiting-for-input', 'working', 'idle', 'exited']
+
+// Fields of a terminal that survive an app restart
+type PersistedTerminal = Pick<TerminalInstance, 'id' | 'workspaceId' | 'type' | 'title' | 'alias' | 'cwd' | 'shellProfileId' | 'task' | 'restartPolicy' | 'agentCommand'>
+
 class WorkspaceStore {
   private state: AppState = {
     workspaces: [],
@@ -46,7 +62,38 @@ class WorkspaceStore {
     return workspace
   }
 
+  // Workspace in a worktree of the parent's repository, with the parent's settings
+  addWorktreeWorkspace(parentId: string, folderPath: string, branch: string, baseBranch: string): Workspace {
+    const parent = this.state.workspaces.find(w => w.id === parentId)
+    if (!parent) throw new Error('Workspace not found')
+
+    const workspace: Workspace = {
+      id: uuidv4(),
+      name: branch,
+      role: parent.role,
+      folderPath,
+      createdAt: Date.now(),
+      agentCommand: parent.agentCommand,
+      shellProfileId: parent.shellProfileId,
+      env: parent.env,
+      worktree: { parentId, branch, baseBranch }
+    }
+
+    this.state = {
+      ...this.state,
+      workspaces: [...this.state.workspaces, workspace],
+      activeWorkspaceId: workspace.id
+    }
+
+    this.notify()
+    this.save()
+    return workspace
+  }
+
   removeWorkspace(id: string): void {
+    this.state.terminals
+      .filter(t => t.workspaceId === id)
+      .forEach(t => scrollbackStore.remove(t.id))
     const terminals = this.state.terminals.filter(t => t.workspaceId !== id)
     const workspaces = this.state.workspaces.filter(w => w.id !== id)
 
@@ -97,26 +144,108 @@ class WorkspaceStore {
     this.save()
   }
 
+  setWorkspaceAgentCommand(id: string, agentCommand: AgentCommand | undefined): void {
+    this.state = {
+      ...this.state,
+      workspaces: this.state.workspaces.map(w =>
+        w.id === id ? { ...w, agentCommand } : w
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  setWorkspaceNotificationsMuted(id: string, notificationsMuted: boolean): void {
+    this.state = {
+      ...this.state,
+      workspaces: this.state.workspaces.map(w =>
+        w.id === id ? { ...w, notificationsMuted } : w
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  // Undefined falls back to the app's default shell
+  setWorkspaceShellProfile(id: string, shellProfileId: string | undefined): void {
+    this.state = {
+      ...this.state,
+      workspaces: this.state.workspaces.map(w =>
+        w.id === id ? { ...w, shellProfileId } : w
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  // Undefined falls back to the project file's tasks
+  setWorkspaceTasks(id: string, tasks: StartupTask[] | undefined): void {
+    this.state = {
+      ...this.state,
+      workspaces: this.state.workspaces.map(w =>
+        w.id === id ? { ...w, tasks } : w
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  setWorkspaceEnvironment(id: string, envFiles: string[], env: Record<string, string>): void {
+    this.state = {
+      ...this.state,
+      workspaces: this.state.workspaces.map(w =>
+        w.id === id
+          ? { ...w, envFiles: envFiles.length > 0 ? envFiles : undefined, env: Object.keys(env).length > 0 ? env : undefined }
+          : w
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  // Single-pane layouts are not stored, the main panel then follows the focused terminal
+  setWorkspaceLayout(id: string, layout: PaneLayout | undefined): void {
+    this.state = {
+      ...this.state,
+      workspaces: this.state.workspaces.map(w =>
+        w.id === id ? { ...w, layout: isSplitLayout(layout) ? layout : undefined } : w
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
   // Terminal actions
-  addTerminal(workspaceId: string, type: 'terminal' | 'claude-code'): TerminalInstance {
+  addTerminal(workspaceId: string, type: 'terminal' | 'claude-code', options: NewTerminalOptions = {}): TerminalInstance {
     const workspace = this.state.workspaces.find(w => w.id === workspaceId)
     if (!workspace) throw new Error('Workspace not found')
 
     const existingTerminals = this.state.terminals.filter(
-      t => t.workspaceId === workspaceId && t.type === 'terminal'
+      t => t.workspaceId === workspaceId && t.type === type
     )
+    const defaultTitle = type === 'claude-code'
+      ? (existingTerminals.length > 0 ? `Code Agent ${existingTerminals.length + 1}` : 'Code Agent')
+      : options.task?.name || `Terminal ${existingTerminals.length + 1}`
 
     const terminal: TerminalInstance = {
       id: uuidv4(),
       workspaceId,
       type,
-      title: type === 'claude-code' ? 'Code Agent' : `Terminal ${existingTerminals.length + 1}`,
-      cwd: workspace.folderPath,
-      scrollbackBuffer: [],
-      lastActivityTime: Date.now()
+      title: options.title?.trim() || defaultTitle,
+      cwd: options.cwd || options.shellProfile?.cwd || workspace.folderPath,
+      lastActivityTime: Date.now(),
+      shellProfileId: options.shellProfile?.id,
+      task: options.task,
+      agentCommand: options.agentCommand
     }
 
-    // Only auto-focus Claude Code, keep current focus for regular terminals
+    // Only auto-focus agents, keep current focus for regular terminals
     const shouldFocus = type === 'claude-code' || !this.state.focusedTerminalId
 
     this.state = {
@@ -126,21 +255,40 @@ class WorkspaceStore {
     }
 
     this.notify()
+    this.save()
     return terminal
   }
 
   removeTerminal(id: string): void {
+    const removed = this.state.terminals.find(t => t.id === id)
     const terminals = this.state.terminals.filter(t => t.id !== id)
+    scrollbackStore.remove(id)
+
+    // Drop the terminal's pane from any split layout showing it
+    const workspaces = this.state.workspaces.map(w => {
+      if (!w.layout || !getLayoutTerminalIds(w.layout).includes(id)) return w
+      const layout = removePane(w.layout, id) ?? undefined
+      return { ...w, layout: isSplitLayout(layout) ? layout : undefined }
+    })
 
     this.state = {
       ...this.state,
+      workspaces,
       terminals,
       focusedTerminalId: this.state.focusedTerminalId === id
-        ? (terminals[0]?.id ?? null)
+        ? this.getFallbackFocus(terminals, removed?.workspaceId)
         : this.state.focusedTerminalId
     }
 
     this.notify()
+    this.save()
+  }
+
+  // Focus moves to another agent of the same workspace, then to its shells
+  private getFallbackFocus(terminals: TerminalInstance[], workspaceId: string | undefined): string | null {
+    const siblings = terminals.filter(t => t.workspaceId === workspaceId)
+    const next = siblings.find(t => t.type === 'claude-code') ?? siblings[0] ?? terminals[0]
+    return next?.id ?? null
   }
 
   setFocusedTerminal(id: string | null): void {
@@ -154,6 +302,37 @@ class WorkspaceStore {
     this.notify()
   }
 
+  // Switch to the terminal's workspace and focus it, taking over a pane if the workspace is split
+  showTerminal(id: string): void {
+    const terminal = this.state.terminals.find(t => t.id === id)
+    if (!terminal) return
+
+    let workspaces = this.state.workspaces
+    const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+    const paneIds = workspace?.layout ? getLayoutTerminalIds(workspace.layout) : []
+    const layoutChanged = paneIds.length > 0 && !paneIds.includes(id)
+    if (workspace?.layout && layoutChanged) {
+      const focusedId = this.state.focusedTerminalId
+      const targetPane = this.state.activeWorkspaceId === workspace.id && focusedId && paneIds.includes(focusedId)
+        ? focusedId
+        : paneIds[0]
+      const layout = replacePane(workspace.layout, targetPane, id)
+      workspaces = workspaces.map(w => w.id === workspace.id ? { ...w, layout } : w)
+    }
+
+    this.state = {
+      ...this.state,
+      workspaces,
+      activeWorkspaceId: terminal.workspaceId,
+      focusedTerminalId: id
+    }
+
+    this.notify()
+    if (layoutChanged) {
+      this.save()
+    }
+  }
+
   updateTerminalCwd(id: string, cwd: string): void {
     this.state = {
       ...this.state,
@@ -163,23 +342,73 @@ class WorkspaceStore {
     }
 
     this.notify()
+    this.save()
   }
 
-  appendScrollback(id: string, data: string): void {
+  updateTerminalTask(id: string, task: StartupTask): void {
     this.state = {
       ...this.state,
       terminals: this.state.terminals.map(t =>
-        t.id === id ? { ...t, scrollbackBuffer: [...t.scrollbackBuffer, data] } : t
+        t.id === id ? { ...t, task, title: task.name } : t
       )
     }
-    // Don't notify for scrollback updates to avoid re-renders
+
+    this.notify()
+    this.save()
   }
 
-  clearScrollback(id: string): void {
+  // Name and launch command of an agent, the command applies on its next restart
+  updateTerminalAgent(id: string, title: string, agentCommand: AgentCommand | undefined): void {
     this.state = {
       ...this.state,
       terminals: this.state.terminals.map(t =>
-        t.id === id ? { ...t, scrollbackBuffer: [] } : t
+        t.id === id ? { ...t, title: title.trim() || t.title, agentCommand } : t
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  updateTerminalAgentState(id: string, agentState: AgentState): void {
+    this.state = {
+      ...this.state,
+      terminals: this.state.terminals.map(t =>
+        t.id === id ? { ...t, agentState } : t
+      )
+    }
+
+    this.notify()
+  }
+
+  updateTerminalExitStatus(id: string, exitStatus: ExitStatus): void {
+    this.state = {
+      ...this.state,
+      terminals: this.state.terminals.map(t =>
+        t.id === id ? { ...t, exitStatus } : t
+      )
+    }
+
+    this.notify()
+  }
+
+  setTerminalRestartPolicy(id: string, restartPolicy: RestartPolicy): void {
+    this.state = {
+      ...this.state,
+      terminals: this.state.terminals.map(t =>
+        t.id === id ? { ...t, restartPolicy } : t
+      )
+    }
+
+    this.notify()
+    this.save()
+  }
+
+  setTerminalRecording(id: string, isRecording: boolean): void {
+    this.state = {
+      ...this.state,
+      terminals: this.state.terminals.map(t =>
+        t.id === id ? { ...t, isRecording } : t
       )
     }
 
@@ -191,8 +420,8 @@ class WorkspaceStore {
     return this.state.terminals.filter(t => t.workspaceId === workspaceId)
   }
 
-  getClaudeCodeTerminal(workspaceId: string): TerminalInstance | undefined {
-    return this.state.terminals.find(
+  getAgentTerminals(workspaceId: string): TerminalInstance[] {
+    return this.state.terminals.filter(
       t => t.workspaceId === workspaceId && t.type === 'claude-code'
     )
   }
@@ -221,6 +450,14 @@ class WorkspaceStore {
     }
   }
 
+  // The state that most needs attention among the workspace's agents
+  getWorkspaceAgentState(workspaceId: string): AgentState | null {
+    const states = this.getWorkspaceTerminals(workspaceId)
+      .map(t => t.agentState)
+      .filter((state): state is AgentState => state !== undefined)
+    return AGENT_STATE_PRIORITY.find(state => states.includes(state)) ?? null
+  }
+
   getWorkspaceLastActivity(workspaceId: string): number | null {
     const terminals = this.getWorkspaceTerminals(workspaceId)
     const lastActivities = terminals
@@ -232,9 +469,22 @@ class WorkspaceStore {
 
   // Persistence
   async save(): Promise<void> {
+    const terminals: PersistedTerminal[] = this.state.terminals.map(t => ({
+      id: t.id,
+      workspaceId: t.workspaceId,
+      type: t.type,
+      title: t.title,
+      alias: t.alias,
+      cwd: t.cwd,
+      shellProfileId: t.shellProfileId,
+      task: t.task,
+      restartPolicy: t.restartPolicy,
+      agentCommand: t.agentCommand
+    }))
     const data = JSON.stringify({
       workspaces: this.state.workspaces,
-      activeWorkspaceId: this.state.activeWorkspaceId
+      activeWorkspaceId: this.state.activeWorkspaceId,
+      terminals
     })
     await window.electronAPI.workspace.save(data)
   }
@@ -244,10 +494,16 @@ class WorkspaceStore {
     if (data) {
       try {
         const parsed = JSON.parse(data)
+        const workspaces: Workspace[] = parsed.workspaces || []
+        const persisted: PersistedTerminal[] = (parsed.terminals || [])
+          .filter((t: PersistedTerminal) => workspaces.some(w => w.id === t.workspaceId))
+        await Promise.all(persisted.map(t => scrollbackStore.load(t.id)))
+        const terminals: TerminalInstance[] = persisted
         this.state = {
           ...this.state,
-          workspaces: parsed.workspaces || [],
-          activeWorkspaceId: parsed.activeWorkspaceId || null
+          workspaces,
+          activeWorkspaceId: parsed.activeWorkspaceId || null,
+          terminals
         }
         this.notify()
       } catch (e) {
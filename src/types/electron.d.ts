@@ -1,27 +1,69 @@
-import type { CreatePtyOptions } from './index'
+import type { CreatePtyOptions, RestartPtyOptions, AgentState, ShellProfile, ProjectConfig, RestartPolicy, ExitStatus, GitStatus, GitFileChange } from './index'
 
 interface ElectronAPI {
   pty: {
     create: (options: CreatePtyOptions) => Promise<boolean>
     write: (id: string, data: string) => Promise<void>
     resize: (id: string, cols: number, rows: number) => Promise<void>
+    ackOutput: (id: string, chars: number) => Promise<void>
     kill: (id: string) => Promise<boolean>
-    restart: (id: string, cwd: string, shell?: string) => Promise<boolean>
+    restart: (id: string, options: RestartPtyOptions) => Promise<boolean>
     getCwd: (id: string) => Promise<string | null>
+    getAgentState: (id: string) => Promise<AgentState | null>
+    stop: (id: string) => Promise<void>
+    setRestartPolicy: (id: string, policy: RestartPolicy) => Promise<void>
+    getExitStatus: (id: string) => Promise<ExitStatus | null>
     onOutput: (callback: (id: string, data: string) => void) => () => void
     onExit: (callback: (id: string, exitCode: number) => void) => () => void
+    onCwdChanged: (callback: (id: string, cwd: string) => void) => () => void
+    onExitStatusChanged: (callback: (id: string, status: ExitStatus) => void) => () => void
+    onAgentStateChanged: (callback: (id: string, state: AgentState) => void) => () => void
   }
   workspace: {
     save: (data: string) => Promise<boolean>
     load: () => Promise<string | null>
+    loadEnvFiles: (folderPath: string, files: string[]) => Promise<{ env: Record<string, string>; errors: string[] }>
+    loadProjectConfig: (folderPath: string) => Promise<{ config: ProjectConfig | null; error?: string }>
+  }
+  git: {
+    createWorktree: (folderPath: string, branch: string) => Promise<{ path?: string; baseBranch?: string; error?: string }>
+    watchStatus: (folderPath: string, compareRef?: string) => Promise<GitStatus | null>
+    unwatchStatus: (folderPath: string) => Promise<void>
+    refreshStatus: (folderPath: string) => Promise<void>
+    getStatus: (folderPath: string) => Promise<GitStatus | null>
+    getDiff: (folderPath: string, file: GitFileChange) => Promise<string>
+    onStatusChanged: (callback: (folderPath: string, status: GitStatus | null) => void) => () => void
+    mergeWorktree: (parentPath: string, branch: string, baseBranch: string) => Promise<{ error?: string }>
+    removeWorktree: (parentPath: string, worktreePath: string, branch: string, force: boolean) => Promise<{ error?: string }>
+  }
+  scrollback: {
+    save: (id: string, data: string) => Promise<boolean>
+    load: (id: string) => Promise<string | null>
+    delete: (id: string) => Promise<boolean>
+  }
+  notification: {
+    show: (options: { terminalId: string; title: string; body: string; flashFrame: boolean }) => Promise<boolean>
+    setBadgeCount: (count: number) => Promise<boolean>
+    onClicked: (callback: (terminalId: string) => void) => () => void
+  }
+  recording: {
+    start: (id: string, options: { title: string; recordInput: boolean }) => Promise<string | null>
+    stop: (id: string) => Promise<string | null>
+    open: () => Promise<{ filePath: string; content: string } | null>
   }
   settings: {
     save: (data: string) => Promise<boolean>
     load: () => Promise<string | null>
-    getShellPath: (shell: string) => Promise<string>
+    detectShellProfiles: () => Promise<ShellProfile[]>
   }
   dialog: {
     selectFolder: () => Promise<string | null>
+    saveFile: (defaultName: string, content: string, filters: { name: string; extensions: string[] }[]) => Promise<string | null>
+    openFile: (filters: { name: string; extensions: string[] }[]) => Promise<{ filePath: string; content: string } | null>
+  }
+  app: {
+    onBeforeClose: (callback: () => void) => () => void
+    closeReady: () => Promise<void>
   }
 }
 
@@ -5,6 +5,72 @@ export interface Workspace {
   role?: string;
   folderPath: string;
   createdAt: number;
+  agentCommand?: AgentCommand;
+  layout?: PaneLayout;
+  notificationsMuted?: boolean;
+  shellProfileId?: string; // Default shell for new terminals, overrides the app default
+  envFiles?: string[]; // .env files relative to the folder, later files win
+  env?: Record<string, string>; // Applied after the .env files
+  tasks?: StartupTask[]; // Replaces the tasks of the project file
+  worktree?: WorkspaceWorktree; // Set on workspaces created as a worktree of another
+}
+
+// Git worktree an agent workspace was created in, on its own branch
+export interface WorkspaceWorktree {
+  parentId: string;
+  branch: string;
+  baseBranch: string; // Branch the parent had checked out, compared against and merged into
+}
+
+// Entry of git status, index and worktree are its two status letters
+export interface GitFileChange {
+  path: string;
+  origPath?: string; // Source of a rename or copy
+  index: string;
+  worktree: string;
+}
+
+export interface GitStatus {
+  branch: string | null; // Null when HEAD is detached
+  compareRef: string | null; // What ahead and behind count against
+  ahead: number;
+  behind: number;
+  files: GitFileChange[];
+}
+
+// Named terminal started with the workspace, like a tmuxinator window
+export interface StartupTask {
+  name: string;
+  command: string;
+  cwd?: string; // Relative to the workspace folder
+  env?: Record<string, string>;
+  restart?: RestartPolicy; // Default policy of the task's terminal
+}
+
+// .better-agent-terminal.json in the workspace folder
+export interface ProjectConfig {
+  tasks?: StartupTask[];
+}
+
+// 'horizontal' places panes side by side, 'vertical' stacks them
+export type SplitDirection = 'horizontal' | 'vertical';
+
+// Split layout tree of the main panel
+export type PaneLayout =
+  | { type: 'pane'; terminalId: string }
+  | {
+      type: 'split';
+      direction: SplitDirection;
+      ratio: number; // Share of the first child, 0..1
+      first: PaneLayout;
+      second: PaneLayout;
+    };
+
+// Command used to launch the agent CLI in claude-code terminals
+export interface AgentCommand {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
 }
 
 // Preset roles for quick selection
@@ -18,6 +84,23 @@ export const PRESET_ROLES = [
   { id: 'custom', name: 'Custom', color: '#dfdbc3' },
 ] as const;
 
+export type AgentState = 'working' | 'waiting-for-input' | 'idle' | 'exited';
+
+// When the pty restarts a process that exited on its own
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+export interface ExitRecord {
+  exitCode: number;
+  exitedAt: number;
+  restartedAt?: number;
+}
+
+export interface ExitStatus {
+  running: boolean;
+  restartAt?: number; // Scheduled automatic restart
+  history: ExitRecord[]; // Oldest first
+}
+
 export interface TerminalInstance {
   id: string;
   workspaceId: string;
@@ -26,10 +109,22 @@ export interface TerminalInstance {
   alias?: string;
   pid?: number;
   cwd: string;
-  scrollbackBuffer: string[];
   lastActivityTime?: number;
+  isRecording?: boolean;
+  agentState?: AgentState;
+  shellProfileId?: string; // Profile picked when the terminal was created
+  task?: StartupTask; // Command typed into the shell on every launch
+  restartPolicy?: RestartPolicy; // Overrides the task's policy
+  agentCommand?: AgentCommand; // Agent's own launch command, overrides the workspace's
+  exitStatus?: ExitStatus; // Not persisted
 }
 
+// Terminals that broadcast input goes to
+export type BroadcastScope =
+  | { type: 'workspace'; workspaceId: string }
+  | { type: 'all' }
+  | { type: 'role'; role: string };
+
 export interface AppState {
   workspaces: Workspace[];
   activeWorkspaceId: string | null;
@@ -43,8 +138,19 @@ export interface CreatePtyOptions {
   cwd: string;
   type: 'terminal' | 'claude-code';
   shell?: string;
+  shellArgs?: string[]; // Replaces the default arguments for the shell
+  shellEnv?: Record<string, string>;
+  startupCommand?: string; // Typed into the shell once it started
+  agentCommand?: AgentCommand;
+  workspacePath?: string; // Base for envFiles
+  envFiles?: string[];
+  workspaceEnv?: Record<string, string>;
+  restartPolicy?: RestartPolicy;
 }
 
+// Launch options that can change on restart
+export type RestartPtyOptions = Omit<CreatePtyOptions, 'id' | 'type'>;
+
 export interface PtyOutput {
   id: string;
   data: string;
@@ -55,11 +161,92 @@ export interface PtyExit {
   exitCode: number;
 }
 
-export type ShellType = 'auto' | 'pwsh' | 'powershell' | 'cmd' | 'custom';
+// Named shell configuration, detected on this machine or defined by the user
+export interface ShellProfile {
+  id: string;
+  name: string;
+  path: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd?: string; // Starting directory, defaults to the workspace folder
+  icon?: string;
+  detected?: boolean;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  doNotDisturb: boolean;
+  flashFrame: boolean; // Flash the taskbar button while the window is in the background
+  badgeCount: boolean; // Number of agents waiting for input on the app icon
+}
+
+// Terminal palette, compatible with xterm's ITheme
+export interface TerminalColors {
+  background: string;
+  foreground: string;
+  cursor?: string;
+  cursorAccent?: string;
+  selectionBackground?: string;
+  black: string;
+  red: string;
+  green: string;
+  yellow: string;
+  blue: string;
+  magenta: string;
+  cyan: string;
+  white: string;
+  brightBlack: string;
+  brightRed: string;
+  brightGreen: string;
+  brightYellow: string;
+  brightBlue: string;
+  brightMagenta: string;
+  brightCyan: string;
+  brightWhite: string;
+}
+
+export interface TerminalTheme {
+  id: string;
+  name: string;
+  appearance: 'dark' | 'light'; // App chrome that goes with the theme
+  colors: TerminalColors;
+}
+
+export type CursorStyle = 'block' | 'underline' | 'bar';
+
+// Action id to chord such as 'Ctrl+Shift+P', null leaves the keys to the terminal
+export type Keybindings = Record<string, string | null>;
+
+export type SnippetScope =
+  | { type: 'global' }
+  | { type: 'role'; role: string }
+  | { type: 'workspace'; workspaceId: string };
+
+// Saved text for terminals, usually a prompt for an agent
+export interface Snippet {
+  id: string;
+  name: string;
+  body: string; // May contain variables such as {{workspace.folderPath}}, {{branch}} and {{selection}}
+  scope: SnippetScope;
+  bracketedPaste: boolean; // Mark as pasted when the program asked for it, so newlines don't submit
+  submit: boolean; // Press Enter after inserting
+}
 
 export interface AppSettings {
-  shell: ShellType;
-  customShellPath: string;
+  defaultShellProfile: string; // Empty for the system default shell
+  shellProfiles: ShellProfile[]; // User-defined, detected shells are not stored
   fontSize: number;
-  theme: 'dark' | 'light';
+  fontFamily: string;
+  lineHeight: number;
+  cursorStyle: CursorStyle;
+  cursorBlink: boolean;
+  terminalTheme: string; // Id of a built-in or imported theme
+  customThemes: TerminalTheme[];
+  theme: 'dark' | 'light'; // App chrome
+  agentCommand: AgentCommand;
+  recordInput: boolean;
+  persistentSessions: boolean; // Terminals run in a background daemon and survive quitting
+  notifications: NotificationSettings;
+  keybindings: Keybindings; // Overrides of the platform defaults
+  snippets: Snippet[];
 }
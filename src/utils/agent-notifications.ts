@@ -0,0 +1,60 @@
+import type { AgentState } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { settingsStore } from '../stores/settings-store'
+
+// Shorter bursts are startup or redraw noise rather than a finished task
+const MIN_WORK_DURATION = 5000
+
+const workStartTimes = new Map<string, number>()
+
+// Whether the user can already see the terminal
+function isTerminalVisible(workspaceId: string): boolean {
+  return workspaceStore.getState().activeWorkspaceId === workspaceId && document.hasFocus()
+}
+
+// Notify when an agent asks a question or finishes a longer piece of work out of sight.
+// Call before the new state is stored.
+export function notifyAgentStateChange(terminalId: string, state: AgentState): void {
+  const { workspaces, terminals } = workspaceStore.getState()
+  const terminal = terminals.find(t => t.id === terminalId)
+  if (!terminal) return
+  const previous = terminal.agentState
+
+  const now = Date.now()
+  if (state === 'working') {
+    if (previous !== 'working') {
+      workStartTimes.set(terminalId, now)
+    }
+    return
+  }
+
+  const workStart = workStartTimes.get(terminalId)
+  workStartTimes.delete(terminalId)
+
+  let body: string
+  if (state === 'waiting-for-input') {
+    body = `${terminal.alias || terminal.title} needs your input`
+  } else if (state === 'idle' && previous === 'working' && workStart && now - workStart >= MIN_WORK_DURATION) {
+    body = `${terminal.alias || terminal.title} finished`
+  } else {
+    return
+  }
+
+  const { notifications } = settingsStore.getSettings()
+  const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+  if (!workspace || !notifications.enabled || notifications.doNotDisturb || workspace.notificationsMuted) return
+  if (isTerminalVisible(workspace.id)) return
+
+  window.electronAPI.notification.show({
+    terminalId,
+    title: workspace.alias || workspace.name,
+    body,
+    flashFrame: notifications.flashFrame
+  })
+}
+
+export function updateBadgeCount(): void {
+  const { notifications } = settingsStore.getSettings()
+  const waiting = workspaceStore.getState().terminals.filter(t => t.agentState === 'waiting-for-input').length
+  window.electronAPI.notification.setBadgeCount(notifications.badgeCount ? waiting : 0)
+}
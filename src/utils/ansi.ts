@@ -0,0 +1,31 @@
+// CSI sequences, OSC/DCS/APC strings, other escapes and stray control characters
+const ANSI_PATTERN = new RegExp([
+  '\\x1b\\[[0-?]*[ -/]*[@-~]',
+  '\\x1b\\][^\\x07\\x1b]*(?:\\x07|\\x1b\\\\)',
+  '\\x1b[PX^_][^\\x1b]*\\x1b\\\\',
+  '\\x1b[ -/]*[0-~]',
+  '[\\x00-\\x08\\x0b\\x0c\\x0e-\\x1f\\x7f]'
+].join('|'), 'g')
+
+// Escape sequence that a chunk of output ends in the middle of
+const INCOMPLETE_ESCAPE_PATTERN = /^\x1b(?:\[[0-?]*[ -/]*|\][^\x07\x1b]*|[PX^_][^\x1b]*|[ -/]*)$/
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '')
+}
+
+// Length of the unterminated escape sequence at the end of the text, 0 if there is none
+export function incompleteEscapeLength(text: string): number {
+  const start = text.lastIndexOf('\x1b')
+  if (start === -1) return 0
+  return INCOMPLETE_ESCAPE_PATTERN.test(text.slice(start)) ? text.length - start : 0
+}
+
+// Lines of stripped text as they would read on screen, a bare \r overwrites the line
+export function toScreenLines(plainText: string): string[] {
+  return plainText.split('\n').map(line => {
+    const trimmed = line.replace(/\r+$/, '')
+    const index = trimmed.lastIndexOf('\r')
+    return index === -1 ? trimmed : trimmed.slice(index + 1)
+  })
+}
@@ -0,0 +1,124 @@
+import type { Command, CommandProvider } from '../stores/command-registry'
+import { workspaceStore } from '../stores/workspace-store'
+import { settingsStore } from '../stores/settings-store'
+import { broadcastStore } from '../stores/broadcast-store'
+import { getTerminalSnippets, insertSnippet } from './snippets'
+
+// Panels and dialogs owned by App
+export interface AppCommandActions {
+  openSettings: () => void
+  openAbout: () => void
+  openScrollbackMemory: () => void
+  openGlobalSearch: () => void
+  openReplay: () => void
+  openWorkspaceSettings: (id: string) => void
+  openWorktree: (id: string) => void
+  toggleChangesPanel: () => void
+  openBroadcast: () => void
+  addWorkspace: () => void
+}
+
+const MIN_FONT_SIZE = 10
+const MAX_FONT_SIZE = 24
+
+// Commands that don't depend on the workspace view: panels, switching and settings toggles
+export function createAppCommandProvider(actions: AppCommandActions): CommandProvider {
+  return () => {
+    const { workspaces, terminals, activeWorkspaceId, focusedTerminalId } = workspaceStore.getState()
+    const settings = settingsStore.getSettings()
+
+    const commands: Command[] = [
+      { id: 'settings.open', category: 'Preferences', title: 'Open Settings', run: actions.openSettings },
+      { id: 'search.global', category: 'Search', title: 'Search All Terminals', run: actions.openGlobalSearch },
+      { id: 'recording.replay', category: 'Recording', title: 'Replay Session…', run: actions.openReplay },
+      { id: 'workspace.add', category: 'Workspace', title: 'Add Workspace…', run: actions.addWorkspace },
+      { id: 'git.toggleChanges', category: 'Git', title: 'Toggle Changed Files Panel', run: actions.toggleChangesPanel },
+      { id: 'broadcast.open', category: 'Broadcast', title: 'Broadcast Input…', run: actions.openBroadcast },
+      {
+        id: 'settings.toggleDoNotDisturb',
+        category: 'Preferences',
+        title: settings.notifications.doNotDisturb ? 'Turn Off Do Not Disturb' : 'Turn On Do Not Disturb',
+        run: () => settingsStore.setNotifications({ doNotDisturb: !settings.notifications.doNotDisturb })
+      },
+      {
+        id: 'settings.toggleNotifications',
+        category: 'Preferences',
+        title: settings.notifications.enabled ? 'Disable Desktop Notifications' : 'Enable Desktop Notifications',
+        run: () => settingsStore.setNotifications({ enabled: !settings.notifications.enabled })
+      },
+      {
+        id: 'settings.toggleRecordInput',
+        category: 'Preferences',
+        title: settings.recordInput ? 'Stop Recording Keyboard Input' : 'Record Keyboard Input in Sessions',
+        run: () => settingsStore.setRecordInput(!settings.recordInput)
+      },
+      {
+        id: 'settings.increaseFontSize',
+        category: 'Preferences',
+        title: 'Increase Font Size',
+        run: () => settingsStore.setFontSize(Math.min(settings.fontSize + 1, MAX_FONT_SIZE))
+      },
+      {
+        id: 'settings.decreaseFontSize',
+        category: 'Preferences',
+        title: 'Decrease Font Size',
+        run: () => settingsStore.setFontSize(Math.max(settings.fontSize - 1, MIN_FONT_SIZE))
+      },
+      { id: 'app.about', category: 'Help', title: 'About', run: actions.openAbout },
+      { id: 'debug.scrollbackMemory', category: 'Debug', title: 'Show Scrollback Memory', run: actions.openScrollbackMemory }
+    ]
+
+    if (broadcastStore.isActive()) {
+      commands.push({ id: 'broadcast.stop', category: 'Broadcast', title: 'Stop Broadcasting', run: () => broadcastStore.stop() })
+    }
+
+    if (activeWorkspaceId) {
+      commands.push({
+        id: 'workspace.settings',
+        category: 'Workspace',
+        title: 'Open Workspace Settings',
+        run: () => actions.openWorkspaceSettings(activeWorkspaceId)
+      }, {
+        id: 'workspace.worktree',
+        category: 'Workspace',
+        title: workspaces.find(w => w.id === activeWorkspaceId)?.worktree ? 'Merge Back or Remove Worktree…' : 'New Agent Worktree…',
+        run: () => actions.openWorktree(activeWorkspaceId)
+      })
+    }
+
+    if (focusedTerminalId) {
+      for (const snippet of getTerminalSnippets(focusedTerminalId)) {
+        commands.push({
+          id: `snippet.insert.${snippet.id}`,
+          category: 'Insert Snippet',
+          title: snippet.name,
+          detail: snippet.body.split('\n')[0],
+          run: () => insertSnippet(snippet, focusedTerminalId)
+        })
+      }
+    }
+
+    for (const workspace of workspaces) {
+      commands.push({
+        id: `workspace.goto.${workspace.id}`,
+        category: 'Go to Workspace',
+        title: workspace.alias || workspace.name,
+        detail: [workspace.role, workspace.alias ? workspace.name : ''].filter(Boolean).join(' · '),
+        run: () => workspaceStore.setActiveWorkspace(workspace.id)
+      })
+    }
+
+    for (const terminal of terminals) {
+      const workspace = workspaces.find(w => w.id === terminal.workspaceId)
+      commands.push({
+        id: `terminal.focus.${terminal.id}`,
+        category: 'Focus Terminal',
+        title: terminal.alias || terminal.title,
+        detail: workspace ? (workspace.alias || workspace.name) : undefined,
+        run: () => workspaceStore.showTerminal(terminal.id)
+      })
+    }
+
+    return commands
+  }
+}
@@ -0,0 +1,59 @@
+export interface AsciicastHeader {
+  version: number
+  width: number
+  height: number
+  timestamp?: number
+  title?: string
+  idle_time_limit?: number
+}
+
+// [seconds since start, 'o' | 'i' | 'r' | 'm', data]
+export type AsciicastEvent = [number, string, string]
+
+export interface Asciicast {
+  header: AsciicastHeader
+  events: AsciicastEvent[]
+  duration: number
+}
+
+// Pauses longer than this are shortened during replay when the cast doesn't set its own limit
+const DEFAULT_IDLE_TIME_LIMIT = 3
+
+export function parseAsciicast(content: string): Asciicast {
+  const lines = content.split('\n').filter(line => line.trim() !== '')
+  if (lines.length === 0) {
+    throw new Error('Recording is empty')
+  }
+
+  const header = JSON.parse(lines[0]) as AsciicastHeader
+  if (header.version !== 2 || !header.width || !header.height) {
+    throw new Error('Not an asciicast v2 recording')
+  }
+
+  const idleTimeLimit = header.idle_time_limit ?? DEFAULT_IDLE_TIME_LIMIT
+  const events: AsciicastEvent[] = []
+  let previousTime = 0
+  let shift = 0
+  for (const line of lines.slice(1)) {
+    const [time, type, data] = JSON.parse(line) as AsciicastEvent
+    // Compress idle gaps so long pauses don't stall the replay
+    const gap = time - previousTime
+    if (gap > idleTimeLimit) {
+      shift += gap - idleTimeLimit
+    }
+    previousTime = time
+    events.push([time - shift, type, data])
+  }
+
+  return {
+    header,
+    events,
+    duration: events.length > 0 ? events[events.length - 1][0] : 0
+  }
+}
+
+// Parses the 'COLSxROWS' payload of resize events
+export function parseResize(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data)
+  return match ? { cols: Number(match[1]), rows: Number(match[2]) } : null
+}
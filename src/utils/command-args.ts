@@ -0,0 +1,20 @@
+// Split an argument string on whitespace, keeping quoted segments together
+export function parseArgs(text: string): string[] {
+  const args: string[] = []
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[1] !== undefined) {
+      args.push(match[1].replace(/\\(.)/g, '$1'))
+    } else {
+      args.push(match[2] ?? match[3])
+    }
+  }
+  return args
+}
+
+export function formatArgs(args: string[]): string {
+  return args
+    .map(arg => /[\s"']/.test(arg) || arg === '' ? `"${arg.replace(/["\\]/g, '\\$&')}"` : arg)
+    .join(' ')
+}
@@ -0,0 +1,57 @@
+export interface FuzzyMatch {
+  score: number
+  indices: number[] // Positions of the matched characters in the text
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true
+  const previous = text[index - 1]
+  return /[\s\-_:/.()]/.test(previous) || (previous === previous.toLowerCase() && text[index] !== text[index].toLowerCase())
+}
+
+// Matches the query characters in order, preferring consecutive runs and word starts
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '')
+  if (!needle) return { score: 0, indices: [] }
+  const haystack = text.toLowerCase()
+
+  // Last position each query character can take with the rest still matching after it
+  const latest: number[] = []
+  let position = haystack.length
+  for (let k = needle.length - 1; k >= 0; k--) {
+    position = position > 0 ? haystack.lastIndexOf(needle[k], position - 1) : -1
+    if (position === -1) return null
+    latest[k] = position
+  }
+
+  const indices: number[] = []
+  let score = 0
+  let searchFrom = 0
+  for (let k = 0; k < needle.length; k++) {
+    const char = needle[k]
+    // Continue a run if possible, then prefer a word start, otherwise take the nearest one
+    let index = haystack.indexOf(char, searchFrom)
+    const continuesRun = indices.length > 0 && index === searchFrom
+    for (let i = index; i !== -1 && i <= latest[k] && !continuesRun; i = haystack.indexOf(char, i + 1)) {
+      if (isWordStart(text, i)) {
+        index = i
+        break
+      }
+    }
+
+    const previous = indices[indices.length - 1]
+    if (previous !== undefined && index === previous + 1) {
+      score += 5
+    } else if (isWordStart(text, index)) {
+      score += 3
+    } else {
+      score += 1
+    }
+    indices.push(index)
+    searchFrom = index + 1
+  }
+
+  // Tighter matches rank higher
+  score -= (indices[indices.length - 1] - indices[0]) * 0.1
+  return { score, indices }
+}
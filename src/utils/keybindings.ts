@@ -0,0 +1,149 @@
+import type { Keybindings } from '../types'
+
+export interface KeybindingAction {
+  id: string
+  label: string
+  category: string
+}
+
+export const isMac = typeof navigator !== 'undefined' && /Mac/.test(navigator.platform)
+
+// Every action that can be bound to a chord. Ids match command palette commands where both exist.
+export const KEYBINDING_ACTIONS: KeybindingAction[] = [
+  { id: 'commandPalette.open', label: 'Open Command Palette', category: 'App' },
+  { id: 'search.global', label: 'Search All Terminals', category: 'App' },
+  { id: 'settings.open', label: 'Open Settings', category: 'App' },
+  { id: 'broadcast.open', label: 'Broadcast Input', category: 'App' },
+  { id: 'broadcast.stop', label: 'Stop Broadcasting', category: 'App' },
+  { id: 'workspace.next', label: 'Next Workspace', category: 'Workspace' },
+  { id: 'workspace.previous', label: 'Previous Workspace', category: 'Workspace' },
+  ...Array.from({ length: 9 }, (_, i) => ({
+    id: `terminal.focus${i + 1}`,
+    label: `Focus Terminal ${i + 1}`,
+    category: 'Workspace'
+  })),
+  { id: 'pane.focusLeft', label: 'Focus Pane Left', category: 'Panes' },
+  { id: 'pane.focusRight', label: 'Focus Pane Right', category: 'Panes' },
+  { id: 'pane.focusUp', label: 'Focus Pane Above', category: 'Panes' },
+  { id: 'pane.focusDown', label: 'Focus Pane Below', category: 'Panes' },
+  { id: 'terminal.splitRight', label: 'Split Right', category: 'Panes' },
+  { id: 'terminal.splitDown', label: 'Split Down', category: 'Panes' },
+  { id: 'terminal.new', label: 'New Terminal', category: 'Terminal' },
+  { id: 'terminal.close', label: 'Close Terminal', category: 'Terminal' },
+  { id: 'terminal.restart', label: 'Restart Terminal', category: 'Terminal' },
+  { id: 'terminal.find', label: 'Find in Scrollback', category: 'Terminal' },
+  { id: 'terminal.copy', label: 'Copy', category: 'Terminal' },
+  { id: 'terminal.paste', label: 'Paste', category: 'Terminal' },
+  { id: 'terminal.copyOrSend', label: 'Copy Selection, Otherwise Send Key', category: 'Terminal' },
+  { id: 'terminal.pasteShortcut', label: 'Paste (Alternate)', category: 'Terminal' }
+]
+
+// Windows and Linux keep the existing shortcuts, macOS uses Cmd and leaves Ctrl to the terminal
+export function getDefaultKeybindings(mac: boolean = isMac): Keybindings {
+  const mod = mac ? 'Meta' : 'Ctrl'
+  const bindings: Keybindings = {
+    'commandPalette.open': `${mod}+Shift+P`,
+    'search.global': `${mod}+Shift+G`,
+    'settings.open': mac ? 'Meta+,' : null,
+    'broadcast.open': null,
+    'broadcast.stop': null,
+    'workspace.next': 'Ctrl+Tab',
+    'workspace.previous': 'Ctrl+Shift+Tab',
+    'pane.focusLeft': `${mod}+Alt+Left`,
+    'pane.focusRight': `${mod}+Alt+Right`,
+    'pane.focusUp': `${mod}+Alt+Up`,
+    'pane.focusDown': `${mod}+Alt+Down`,
+    'terminal.splitRight': null,
+    'terminal.splitDown': null,
+    'terminal.new': null,
+    'terminal.close': null,
+    'terminal.restart': null,
+    'terminal.find': `${mod}+Shift+F`,
+    'terminal.copy': mac ? 'Meta+C' : 'Ctrl+Shift+C',
+    'terminal.paste': mac ? 'Meta+V' : 'Ctrl+Shift+V',
+    'terminal.copyOrSend': mac ? null : 'Ctrl+C',
+    'terminal.pasteShortcut': mac ? null : 'Ctrl+V'
+  }
+  for (let i = 1; i <= 9; i++) {
+    bindings[`terminal.focus${i}`] = mac ? `Meta+${i}` : `Alt+${i}`
+  }
+  return normalizeKeybindings(bindings)
+}
+
+// User overrides on top of the platform defaults
+export function resolveKeybindings(overrides: Keybindings): Keybindings {
+  return { ...getDefaultKeybindings(), ...normalizeKeybindings(overrides) }
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  Esc: 'Escape'
+}
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock'])
+
+// Order of the modifiers in a chord, so chords can be compared as strings
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift', 'Meta']
+
+// Same chord with its modifiers in the order eventToChord produces, e.g. 'Meta+Shift+P' to 'Shift+Meta+P'
+export function normalizeChord(chord: string): string {
+  // The key itself may be '+', as in 'Ctrl++'
+  const split = chord.length > 1 ? chord.lastIndexOf('+', chord.length - 2) : -1
+  if (split === -1) return chord
+  const modifiers = chord.slice(0, split).split('+')
+  return [...MODIFIER_ORDER.filter(m => modifiers.includes(m)), chord.slice(split + 1)].join('+')
+}
+
+function normalizeKeybindings(bindings: Keybindings): Keybindings {
+  return Object.fromEntries(
+    Object.entries(bindings).map(([action, chord]) => [action, chord && normalizeChord(chord)])
+  )
+}
+
+// Normalized chord such as 'Ctrl+Shift+P', or null for a lone modifier
+export function eventToChord(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null
+
+  // Use the physical key for letters and digits, so Shift and Alt don't change the name
+  let key: string
+  const code = /^(?:Key([A-Z])|Digit(\d))$/.exec(event.code)
+  if (code) {
+    key = code[1] ?? code[2]
+  } else {
+    key = KEY_NAMES[event.key] ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key)
+  }
+
+  // Same order as MODIFIER_ORDER
+  const parts: string[] = []
+  if (event.ctrlKey) parts.push('Ctrl')
+  if (event.altKey) parts.push('Alt')
+  if (event.shiftKey) parts.push('Shift')
+  if (event.metaKey) parts.push('Meta')
+  parts.push(key)
+  return parts.join('+')
+}
+
+export function formatChord(chord: string): string {
+  return isMac
+    ? chord.replace('Meta', '⌘').replace('Ctrl', '⌃').replace('Alt', '⌥').replace('Shift', '⇧').replace(/\+/g, '')
+    : chord
+}
+
+// Chords bound to more than one action
+export function findConflicts(bindings: Keybindings): Map<string, string[]> {
+  const actionsByChord = new Map<string, string[]>()
+  for (const [action, chord] of Object.entries(bindings)) {
+    if (!chord) continue
+    actionsByChord.set(chord, [...(actionsByChord.get(chord) ?? []), action])
+  }
+  for (const [chord, actions] of Array.from(actionsByChord.entries())) {
+    if (actions.length < 2) {
+      actionsByChord.delete(chord)
+    }
+  }
+  return actionsByChord
+}
@@ -0,0 +1,159 @@
+import type { PaneLayout, SplitDirection } from '../types'
+
+// Rectangle in fractions of the main panel (0..1)
+export interface PaneRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface LayoutDivider {
+  path: string // Position of the split in the tree, '0' = first child, '1' = second child
+  direction: SplitDirection
+  rect: PaneRect // Area covered by the split
+  position: number // Offset of the divider inside the split, in fractions of the panel
+}
+
+export type FocusDirection = 'left' | 'right' | 'up' | 'down'
+
+const MIN_RATIO = 0.1
+const MAX_RATIO = 0.9
+
+export function isSplitLayout(layout: PaneLayout | undefined): layout is PaneLayout & { type: 'split' } {
+  return layout?.type === 'split'
+}
+
+export function getLayoutTerminalIds(layout: PaneLayout): string[] {
+  if (layout.type === 'pane') return [layout.terminalId]
+  return [...getLayoutTerminalIds(layout.first), ...getLayoutTerminalIds(layout.second)]
+}
+
+// Replace the pane showing terminalId with a split holding it and the new terminal
+export function splitPane(
+  layout: PaneLayout,
+  terminalId: string,
+  newTerminalId: string,
+  direction: SplitDirection
+): PaneLayout {
+  if (layout.type === 'pane') {
+    if (layout.terminalId !== terminalId) return layout
+    return {
+      type: 'split',
+      direction,
+      ratio: 0.5,
+      first: layout,
+      second: { type: 'pane', terminalId: newTerminalId }
+    }
+  }
+  return {
+    ...layout,
+    first: splitPane(layout.first, terminalId, newTerminalId, direction),
+    second: splitPane(layout.second, terminalId, newTerminalId, direction)
+  }
+}
+
+// Remove a pane, its sibling takes over the space of the parent split
+export function removePane(layout: PaneLayout, terminalId: string): PaneLayout | null {
+  if (layout.type === 'pane') {
+    return layout.terminalId === terminalId ? null : layout
+  }
+  const first = removePane(layout.first, terminalId)
+  const second = removePane(layout.second, terminalId)
+  if (!first) return second
+  if (!second) return first
+  return { ...layout, first, second }
+}
+
+export function replacePane(layout: PaneLayout, terminalId: string, newTerminalId: string): PaneLayout {
+  if (layout.type === 'pane') {
+    return layout.terminalId === terminalId ? { type: 'pane', terminalId: newTerminalId } : layout
+  }
+  return {
+    ...layout,
+    first: replacePane(layout.first, terminalId, newTerminalId),
+    second: replacePane(layout.second, terminalId, newTerminalId)
+  }
+}
+
+// Drop panes whose terminal no longer exists
+export function pruneLayout(layout: PaneLayout, terminalIds: string[]): PaneLayout | null {
+  return getLayoutTerminalIds(layout)
+    .filter(id => !terminalIds.includes(id))
+    .reduce<PaneLayout | null>((result, id) => result && removePane(result, id), layout)
+}
+
+export function setSplitRatio(layout: PaneLayout, path: string, ratio: number): PaneLayout {
+  if (layout.type === 'pane') return layout
+  if (path === '') {
+    return { ...layout, ratio: Math.min(MAX_RATIO, Math.max(MIN_RATIO, ratio)) }
+  }
+  const rest = path.slice(1)
+  return path[0] === '0'
+    ? { ...layout, first: setSplitRatio(layout.first, rest, ratio) }
+    : { ...layout, second: setSplitRatio(layout.second, rest, ratio) }
+}
+
+export function computePaneRects(
+  layout: PaneLayout,
+  rect: PaneRect = { x: 0, y: 0, width: 1, height: 1 },
+  path = ''
+): { panes: Map<string, PaneRect>; dividers: LayoutDivider[] } {
+  if (layout.type === 'pane') {
+    return { panes: new Map([[layout.terminalId, rect]]), dividers: [] }
+  }
+
+  let firstRect: PaneRect
+  let secondRect: PaneRect
+  let position: number
+  if (layout.direction === 'horizontal') {
+    const width = rect.width * layout.ratio
+    firstRect = { ...rect, width }
+    secondRect = { ...rect, x: rect.x + width, width: rect.width - width }
+    position = width
+  } else {
+    const height = rect.height * layout.ratio
+    firstRect = { ...rect, height }
+    secondRect = { ...rect, y: rect.y + height, height: rect.height - height }
+    position = height
+  }
+
+  const first = computePaneRects(layout.first, firstRect, path + '0')
+  const second = computePaneRects(layout.second, secondRect, path + '1')
+  return {
+    panes: new Map([...first.panes, ...second.panes]),
+    dividers: [{ path, direction: layout.direction, rect, position }, ...first.dividers, ...second.dividers]
+  }
+}
+
+// Find the closest pane on the given side of a pane, overlapping it on the other axis
+export function findNeighborPane(layout: PaneLayout, terminalId: string, direction: FocusDirection): string | null {
+  const { panes } = computePaneRects(layout)
+  const current = panes.get(terminalId)
+  if (!current) return null
+
+  const epsilon = 0.0001
+  let best: { id: string; distance: number } | null = null
+  for (const [id, rect] of panes) {
+    if (id === terminalId) continue
+
+    let distance: number
+    let overlaps: boolean
+    if (direction === 'left' || direction === 'right') {
+      distance = direction === 'left'
+        ? current.x - (rect.x + rect.width)
+        : rect.x - (current.x + current.width)
+      overlaps = rect.y < current.y + current.height - epsilon && rect.y + rect.height > current.y + epsilon
+    } else {
+      distance = direction === 'up'
+        ? current.y - (rect.y + rect.height)
+        : rect.y - (current.y + current.height)
+      overlaps = rect.x < current.x + current.width - epsilon && rect.x + rect.width > current.x + epsilon
+    }
+
+    if (distance > -epsilon && overlaps && (!best || distance < best.distance)) {
+      best = { id, distance }
+    }
+  }
+  return best?.id ?? null
+}
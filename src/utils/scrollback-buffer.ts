@@ -0,0 +1,160 @@
+import { stripAnsi, incompleteEscapeLength, toScreenLines } from './ansi'
+
+export interface ScrollbackLimits {
+  maxChars: number
+  maxLines: number
+}
+
+export interface ScrollbackStats {
+  chunks: number
+  chars: number
+  plainChars: number
+  lines: number
+  bytes: number // Approximate, strings are UTF-16
+}
+
+interface Chunk {
+  raw: string
+  plain: string
+  lines: number
+}
+
+// Large writes are split so trimming never drops much more than the limit
+const MAX_CHUNK_CHARS = 16 * 1024
+const INITIAL_CAPACITY = 64
+
+function countLines(text: string): number {
+  let count = 0
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    count++
+  }
+  return count
+}
+
+// Terminal output in a ring of chunks, each with its escape-stripped text.
+// Appends are O(1) amortized, the oldest chunks are dropped past the limits.
+export class ScrollbackBuffer {
+  private ring: (Chunk | undefined)[] = new Array(INITIAL_CAPACITY)
+  private head = 0 // Slot of the oldest chunk
+  private size = 0
+  private chars = 0
+  private plainChars = 0
+  private lines = 0
+  private dropped = false
+  // Start of an escape sequence split across writes, held back from the stripped text
+  private pendingEscape = ''
+  private limits: ScrollbackLimits
+
+  constructor(limits: ScrollbackLimits) {
+    this.limits = limits
+  }
+
+  append(data: string): void {
+    let start = 0
+    while (data.length - start > MAX_CHUNK_CHARS) {
+      // Split at a line break when there is one
+      const newline = data.lastIndexOf('\n', start + MAX_CHUNK_CHARS - 1)
+      const end = newline >= start ? newline + 1 : start + MAX_CHUNK_CHARS
+      this.push(data.slice(start, end))
+      start = end
+    }
+    if (start < data.length) {
+      this.push(data.slice(start))
+    }
+  }
+
+  // Raw output for replay into a terminal, starting at a line when older output was dropped
+  getText(): string {
+    const text = this.chunks().map(chunk => chunk.raw).join('')
+    return this.dropped ? text.slice(text.indexOf('\n') + 1) : text
+  }
+
+  getPlainLines(): string[] {
+    const text = this.chunks().map(chunk => chunk.plain).join('')
+    const lines = toScreenLines(text)
+    return this.dropped ? lines.slice(1) : lines
+  }
+
+  // Last lines of the stripped text, reading only the newest chunks
+  tailLines(count: number): string[] {
+    const parts: string[] = []
+    let lines = 0
+    for (let i = this.size - 1; i >= 0 && lines <= count; i--) {
+      const chunk = this.at(i)
+      parts.push(chunk.plain)
+      lines += chunk.lines
+    }
+    return toScreenLines(parts.reverse().join('')).slice(-count)
+  }
+
+  clear(): void {
+    this.ring = new Array(INITIAL_CAPACITY)
+    this.head = 0
+    this.size = 0
+    this.chars = 0
+    this.plainChars = 0
+    this.lines = 0
+    this.dropped = false
+    this.pendingEscape = ''
+  }
+
+  getStats(): ScrollbackStats {
+    return {
+      chunks: this.size,
+      chars: this.chars,
+      plainChars: this.plainChars,
+      lines: this.lines,
+      bytes: (this.chars + this.plainChars) * 2
+    }
+  }
+
+  private push(raw: string): void {
+    const text = this.pendingEscape + raw
+    const complete = text.length - incompleteEscapeLength(text)
+    this.pendingEscape = text.slice(complete)
+    const chunk = { raw, plain: stripAnsi(text.slice(0, complete)), lines: countLines(raw) }
+
+    if (this.size === this.ring.length) {
+      this.grow()
+    }
+    this.ring[(this.head + this.size) % this.ring.length] = chunk
+    this.size++
+    this.chars += chunk.raw.length
+    this.plainChars += chunk.plain.length
+    this.lines += chunk.lines
+    this.trim()
+  }
+
+  // Drop the oldest chunks while the rest still reaches a limit
+  private trim(): void {
+    const { maxChars, maxLines } = this.limits
+    while (this.size > 1) {
+      const oldest = this.at(0)
+      if (this.chars - oldest.raw.length < maxChars && this.lines - oldest.lines < maxLines) break
+      this.ring[this.head] = undefined
+      this.head = (this.head + 1) % this.ring.length
+      this.size--
+      this.chars -= oldest.raw.length
+      this.plainChars -= oldest.plain.length
+      this.lines -= oldest.lines
+      this.dropped = true
+    }
+  }
+
+  private grow(): void {
+    this.ring = [...this.chunks(), ...new Array<Chunk | undefined>(this.ring.length)]
+    this.head = 0
+  }
+
+  private at(index: number): Chunk {
+    return this.ring[(this.head + index) % this.ring.length]!
+  }
+
+  private chunks(): Chunk[] {
+    const chunks: Chunk[] = []
+    for (let i = 0; i < this.size; i++) {
+      chunks.push(this.at(i))
+    }
+    return chunks
+  }
+}
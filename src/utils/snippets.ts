@@ -0,0 +1,75 @@
+import type { Snippet, Workspace, TerminalInstance } from '../types'
+import { settingsStore } from '../stores/settings-store'
+import { workspaceStore } from '../stores/workspace-store'
+import { gitStatusStore } from '../stores/git-status-store'
+import { terminalRegistry } from '../stores/terminal-registry'
+
+// Variables a snippet body can use, shown in the snippet editor
+export const SNIPPET_VARIABLES: { name: string; description: string }[] = [
+  { name: 'workspace.name', description: 'Workspace alias or folder name' },
+  { name: 'workspace.folderPath', description: 'Workspace folder' },
+  { name: 'workspace.role', description: 'Workspace role' },
+  { name: 'terminal.title', description: 'Name of the terminal' },
+  { name: 'terminal.cwd', description: 'Current directory of the terminal' },
+  { name: 'branch', description: 'Checked out git branch' },
+  { name: 'selection', description: 'Text selected in the terminal' },
+  { name: 'date', description: 'Today as YYYY-MM-DD' }
+]
+
+const BRACKETED_PASTE_START = '\x1b[200~'
+const BRACKETED_PASTE_END = '\x1b[201~'
+
+// Global snippets, then those for the workspace role, then those for the workspace itself
+export function getWorkspaceSnippets(workspace: Workspace): Snippet[] {
+  const { snippets } = settingsStore.getSettings()
+  const role = workspace.role?.toLowerCase()
+  return [
+    ...snippets.filter(s => s.scope.type === 'global'),
+    ...snippets.filter(s => s.scope.type === 'role' && !!role && s.scope.role.toLowerCase() === role),
+    ...snippets.filter(s => s.scope.type === 'workspace' && s.scope.workspaceId === workspace.id)
+  ]
+}
+
+export function getTerminalSnippets(terminalId: string): Snippet[] {
+  const { workspaces, terminals } = workspaceStore.getState()
+  const terminal = terminals.find(t => t.id === terminalId)
+  const workspace = workspaces.find(w => w.id === terminal?.workspaceId)
+  return workspace ? getWorkspaceSnippets(workspace) : []
+}
+
+// Fills in {{variables}}, unknown ones are left as written
+export function expandSnippet(body: string, workspace: Workspace, terminal: TerminalInstance): string {
+  const values: Record<string, string> = {
+    'workspace.name': workspace.alias || workspace.name,
+    'workspace.folderPath': workspace.folderPath,
+    'workspace.role': workspace.role ?? '',
+    'terminal.title': terminal.alias || terminal.title,
+    'terminal.cwd': terminal.cwd,
+    'branch': gitStatusStore.getStatus(workspace.folderPath)?.branch ?? '',
+    'selection': terminalRegistry.get(terminal.id)?.terminal.getSelection() ?? '',
+    'date': new Date().toISOString().slice(0, 10)
+  }
+  return body.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) => values[name] ?? match)
+}
+
+// Types the snippet into a mounted terminal through its paste path. False when the terminal isn't shown.
+export function insertSnippet(snippet: Snippet, terminalId: string): boolean {
+  const handle = terminalRegistry.get(terminalId)
+  const { workspaces, terminals } = workspaceStore.getState()
+  const terminal = terminals.find(t => t.id === terminalId)
+  const workspace = workspaces.find(w => w.id === terminal?.workspaceId)
+  if (!handle || !terminal || !workspace) return false
+
+  // Line endings as a pasted Enter, like xterm's own paste
+  let text = expandSnippet(snippet.body, workspace, terminal).replace(/\r?\n/g, '\r')
+  // Only when the program turned on bracketed paste, others would see the markers as typed text
+  if (snippet.bracketedPaste && handle.terminal.modes.bracketedPasteMode) {
+    text = BRACKETED_PASTE_START + text.split(BRACKETED_PASTE_END).join('') + BRACKETED_PASTE_END
+  }
+  if (snippet.submit) {
+    text += '\r'
+  }
+  handle.paste(text)
+  handle.terminal.focus()
+  return true
+}
@@ -0,0 +1,73 @@
+import type { Terminal } from '@xterm/xterm'
+import type { SerializeAddon } from '@xterm/addon-serialize'
+
+export type ExportFormat = 'text' | 'ansi' | 'html'
+export type ExportScope = 'all' | 'selection'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; name: string; extension: string }> = {
+  text: { label: 'Plain text', name: 'Text', extension: 'txt' },
+  ansi: { label: 'ANSI (with colors)', name: 'ANSI', extension: 'ans' },
+  html: { label: 'HTML', name: 'HTML', extension: 'html' }
+}
+
+// Whole buffer as plain text, joining lines that were soft-wrapped by the terminal width
+function bufferToText(terminal: Terminal): string {
+  const buffer = terminal.buffer.active
+  const lines: string[] = []
+  for (let i = 0; i < buffer.length; i++) {
+    const line = buffer.getLine(i)
+    if (!line) continue
+    const text = line.translateToString(true)
+    if (line.isWrapped && lines.length > 0) {
+      lines[lines.length - 1] += text
+    } else {
+      lines.push(text)
+    }
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines.join('\n') + '\n'
+}
+
+function toHtmlDocument(terminal: Terminal, fragment: string, title: string): string {
+  const background = terminal.options.theme?.background ?? '#000000'
+  const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  const body = fragment.replace(/^<html><body>/, '').replace(/<\/body><\/html>$/, '')
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapedTitle}</title>`,
+    `<style>body { margin: 0; padding: 16px; background: ${background}; } pre { margin: 0; }</style>`,
+    '</head>',
+    `<body>${body}</body>`,
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+export function exportTerminalOutput(
+  terminal: Terminal,
+  serializeAddon: SerializeAddon,
+  format: ExportFormat,
+  scope: ExportScope,
+  title: string
+): string {
+  const onlySelection = scope === 'selection' && terminal.hasSelection()
+
+  if (format === 'html') {
+    const fragment = serializeAddon.serializeAsHTML({ includeGlobalBackground: true, onlySelection })
+    return toHtmlDocument(terminal, fragment, title)
+  }
+
+  if (format === 'ansi') {
+    const selection = onlySelection ? terminal.getSelectionPosition() : undefined
+    // The serializer works on whole rows, so a selection exports the lines it touches
+    const range = selection ? { start: selection.start.y, end: selection.end.y } : undefined
+    return serializeAddon.serialize({ range, excludeModes: true, excludeAltBuffer: true }) + '\x1b[0m\n'
+  }
+
+  return onlySelection ? terminal.getSelection() + '\n' : bufferToText(terminal)
+}
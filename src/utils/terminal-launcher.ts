@@ -0,0 +1,46 @@
+import type { Workspace, TerminalInstance, AgentCommand, ShellProfile, RestartPtyOptions, RestartPolicy } from '../types'
+import { settingsStore } from '../stores/settings-store'
+import { shellProfileStore } from '../stores/shell-profile-store'
+
+// Terminal's own profile, then the workspace default, then the app default
+export function getShellProfile(terminal: TerminalInstance, workspace: Workspace): ShellProfile | undefined {
+  return shellProfileStore.getProfile(terminal.shellProfileId)
+    ?? shellProfileStore.getProfile(workspace.shellProfileId)
+    ?? shellProfileStore.getDefaultProfile()
+}
+
+// Agent's own command, then the workspace override, then the global agent command
+export function getAgentCommand(terminal: TerminalInstance, workspace: Workspace): AgentCommand {
+  return terminal.agentCommand ?? workspace.agentCommand ?? settingsStore.getSettings().agentCommand
+}
+
+// Terminal's own policy, then the task's
+export function getRestartPolicy(terminal: TerminalInstance): RestartPolicy {
+  return terminal.restartPolicy ?? terminal.task?.restart ?? 'never'
+}
+
+// Shell and agent options for spawning or restarting a terminal
+export function getLaunchOptions(terminal: TerminalInstance, workspace: Workspace, cwd: string): RestartPtyOptions {
+  const profile = getShellProfile(terminal, workspace)
+  return {
+    cwd,
+    shell: profile?.path,
+    shellArgs: profile?.args,
+    shellEnv: { ...profile?.env, ...terminal.task?.env },
+    startupCommand: terminal.task?.command,
+    agentCommand: terminal.type === 'claude-code' ? getAgentCommand(terminal, workspace) : undefined,
+    workspacePath: workspace.folderPath,
+    envFiles: workspace.envFiles,
+    workspaceEnv: workspace.env,
+    restartPolicy: getRestartPolicy(terminal)
+  }
+}
+
+// Spawn the pty backing a terminal instance
+export async function launchTerminal(terminal: TerminalInstance, workspace: Workspace): Promise<boolean> {
+  return window.electronAPI.pty.create({
+    id: terminal.id,
+    type: terminal.type,
+    ...getLaunchOptions(terminal, workspace, terminal.cwd)
+  })
+}
@@ -0,0 +1,167 @@
+import type { ITerminalOptions } from '@xterm/xterm'
+import type { AppSettings, TerminalTheme } from '../types'
+
+// Novel theme (macOS Terminal.app inspired)
+export const NOVEL_THEME: TerminalTheme = {
+  id: 'novel',
+  name: 'Novel',
+  appearance: 'dark',
+  colors: {
+    background: '#1f1d1a',
+    foreground: '#dfdbc3',
+    cursor: '#dfdbc3',
+    cursorAccent: '#1f1d1a',
+    selectionBackground: '#5c5142',
+    black: '#3b3228',
+    red: '#cb6077',
+    green: '#beb55b',
+    yellow: '#f4bc87',
+    blue: '#8ab3b5',
+    magenta: '#a89bb9',
+    cyan: '#7bbda4',
+    white: '#d0c8c6',
+    brightBlack: '#554d46',
+    brightRed: '#cb6077',
+    brightGreen: '#beb55b',
+    brightYellow: '#f4bc87',
+    brightBlue: '#8ab3b5',
+    brightMagenta: '#a89bb9',
+    brightCyan: '#7bbda4',
+    brightWhite: '#f5f1e6'
+  }
+}
+
+export const BUILT_IN_THEMES: TerminalTheme[] = [
+  NOVEL_THEME,
+  {
+    id: 'light',
+    name: 'Light',
+    appearance: 'light',
+    colors: {
+      background: '#fbfaf7',
+      foreground: '#3b3228',
+      cursor: '#3b3228',
+      cursorAccent: '#fbfaf7',
+      selectionBackground: '#d8d2c4',
+      black: '#3b3228',
+      red: '#b8344f',
+      green: '#5f7d1f',
+      yellow: '#a06312',
+      blue: '#2f6f8f',
+      magenta: '#7d5a9c',
+      cyan: '#2b7d6b',
+      white: '#a8a29a',
+      brightBlack: '#6e665d',
+      brightRed: '#cb6077',
+      brightGreen: '#7a9a2e',
+      brightYellow: '#c07f24',
+      brightBlue: '#4a8db0',
+      brightMagenta: '#9676b5',
+      brightCyan: '#3f9c87',
+      brightWhite: '#ffffff'
+    }
+  },
+  {
+    id: 'solarized-dark',
+    name: 'Solarized Dark',
+    appearance: 'dark',
+    colors: {
+      background: '#002b36',
+      foreground: '#839496',
+      cursor: '#93a1a1',
+      cursorAccent: '#002b36',
+      selectionBackground: '#073642',
+      black: '#073642',
+      red: '#dc322f',
+      green: '#859900',
+      yellow: '#b58900',
+      blue: '#268bd2',
+      magenta: '#d33682',
+      cyan: '#2aa198',
+      white: '#eee8d5',
+      brightBlack: '#586e75',
+      brightRed: '#cb4b16',
+      brightGreen: '#586e75',
+      brightYellow: '#657b83',
+      brightBlue: '#839496',
+      brightMagenta: '#6c71c4',
+      brightCyan: '#93a1a1',
+      brightWhite: '#fdf6e3'
+    }
+  },
+  {
+    id: 'solarized-light',
+    name: 'Solarized Light',
+    appearance: 'light',
+    colors: {
+      background: '#fdf6e3',
+      foreground: '#657b83',
+      cursor: '#586e75',
+      cursorAccent: '#fdf6e3',
+      selectionBackground: '#eee8d5',
+      black: '#073642',
+      red: '#dc322f',
+      green: '#859900',
+      yellow: '#b58900',
+      blue: '#268bd2',
+      magenta: '#d33682',
+      cyan: '#2aa198',
+      white: '#eee8d5',
+      brightBlack: '#002b36',
+      brightRed: '#cb4b16',
+      brightGreen: '#586e75',
+      brightYellow: '#657b83',
+      brightBlue: '#839496',
+      brightMagenta: '#6c71c4',
+      brightCyan: '#93a1a1',
+      brightWhite: '#fdf6e3'
+    }
+  },
+  {
+    id: 'high-contrast',
+    name: 'High Contrast',
+    appearance: 'dark',
+    colors: {
+      background: '#000000',
+      foreground: '#ffffff',
+      cursor: '#ffff00',
+      cursorAccent: '#000000',
+      selectionBackground: '#1a5fb4',
+      black: '#000000',
+      red: '#ff5555',
+      green: '#55ff55',
+      yellow: '#ffff55',
+      blue: '#5c9dff',
+      magenta: '#ff55ff',
+      cyan: '#55ffff',
+      white: '#e5e5e5',
+      brightBlack: '#9a9a9a',
+      brightRed: '#ff8080',
+      brightGreen: '#80ff80',
+      brightYellow: '#ffff80',
+      brightBlue: '#8cbaff',
+      brightMagenta: '#ff80ff',
+      brightCyan: '#80ffff',
+      brightWhite: '#ffffff'
+    }
+  }
+]
+
+export const TERMINAL_FONT_FAMILY = '"SF Mono", Menlo, Monaco, "Courier New", monospace'
+
+// Selected theme, falling back to Novel if an imported theme was removed
+export function getTerminalTheme(settings: AppSettings): TerminalTheme {
+  return [...BUILT_IN_THEMES, ...settings.customThemes].find(t => t.id === settings.terminalTheme) ?? NOVEL_THEME
+}
+
+// xterm options that follow the Appearance settings
+export function getTerminalOptions(settings: AppSettings): ITerminalOptions {
+  return {
+    theme: getTerminalTheme(settings).colors,
+    fontSize: settings.fontSize,
+    fontFamily: settings.fontFamily || TERMINAL_FONT_FAMILY,
+    lineHeight: settings.lineHeight,
+    cursorStyle: settings.cursorStyle,
+    cursorBlink: settings.cursorBlink
+  }
+}
@@ -0,0 +1,115 @@
+import type { TerminalColors, TerminalTheme } from '../types'
+
+const ANSI_NAMES = [
+  'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+  'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
+] as const
+
+// iTerm2 keys other than 'Ansi N Color'
+const ITERM_KEYS: Record<string, keyof TerminalColors> = {
+  'Background Color': 'background',
+  'Foreground Color': 'foreground',
+  'Cursor Color': 'cursor',
+  'Cursor Text Color': 'cursorAccent',
+  'Selection Color': 'selectionBackground'
+}
+
+// Windows Terminal keys that differ from xterm's
+const WINDOWS_TERMINAL_KEYS: Record<string, keyof TerminalColors> = {
+  purple: 'magenta',
+  brightPurple: 'brightMagenta',
+  cursorColor: 'cursor'
+}
+
+function toHex(component: number): string {
+  return Math.round(Math.min(Math.max(component, 0), 1) * 255).toString(16).padStart(2, '0')
+}
+
+// Relative luminance of a #rrggbb color, 0 for black and 1 for white
+function luminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map(i => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+function toTheme(name: string, colors: Partial<TerminalColors>): TerminalTheme {
+  const missing = ['background', 'foreground', ...ANSI_NAMES].filter(key => !colors[key as keyof TerminalColors])
+  if (missing.length > 0) {
+    throw new Error(`Color scheme "${name}" is missing ${missing.join(', ')}`)
+  }
+  const complete = colors as TerminalColors
+  return {
+    id: `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    appearance: luminance(complete.background) > 0.5 ? 'light' : 'dark',
+    colors: complete
+  }
+}
+
+// <dict> children as key/value element pairs
+function plistEntries(dict: Element): [string, Element][] {
+  const entries: [string, Element][] = []
+  const children = Array.from(dict.children)
+  for (let i = 0; i + 1 < children.length; i += 2) {
+    if (children[i].tagName === 'key') {
+      entries.push([children[i].textContent ?? '', children[i + 1]])
+    }
+  }
+  return entries
+}
+
+function parseItermColor(dict: Element): string {
+  const components: Record<string, number> = {}
+  for (const [key, value] of plistEntries(dict)) {
+    components[key] = Number(value.textContent)
+  }
+  return `#${toHex(components['Red Component'] ?? 0)}${toHex(components['Green Component'] ?? 0)}${toHex(components['Blue Component'] ?? 0)}`
+}
+
+// .itermcolors property list
+export function parseItermColors(name: string, content: string): TerminalTheme {
+  const doc = new DOMParser().parseFromString(content, 'application/xml')
+  const root = doc.querySelector('plist > dict')
+  if (doc.querySelector('parsererror') || !root) {
+    throw new Error('Not an iTerm2 color scheme')
+  }
+
+  const colors: Partial<TerminalColors> = {}
+  for (const [key, value] of plistEntries(root)) {
+    if (value.tagName !== 'dict') continue
+    const ansi = /^Ansi (\d+) Color$/.exec(key)
+    const target = ansi ? ANSI_NAMES[Number(ansi[1])] : ITERM_KEYS[key]
+    if (target) {
+      colors[target] = parseItermColor(value)
+    }
+  }
+  return toTheme(name, colors)
+}
+
+function parseWindowsTerminalScheme(scheme: Record<string, unknown>): TerminalTheme {
+  const colors: Partial<TerminalColors> = {}
+  for (const [key, value] of Object.entries(scheme)) {
+    if (typeof value !== 'string' || key === 'name') continue
+    const target = WINDOWS_TERMINAL_KEYS[key] ?? key
+    colors[target as keyof TerminalColors] = value.toLowerCase()
+  }
+  return toTheme(String(scheme.name ?? 'Imported'), colors)
+}
+
+// A single Windows Terminal scheme, or every scheme in a settings.json
+export function parseWindowsTerminalSchemes(content: string): TerminalTheme[] {
+  // settings.json allows comments and trailing commas
+  const json = JSON.parse(content.replace(/^\s*\/\/.*$/gm, '').replace(/,(\s*[}\]])/g, '$1'))
+  const schemes: unknown[] = Array.isArray(json.schemes) ? json.schemes : [json]
+  return schemes.map(scheme => parseWindowsTerminalScheme(scheme as Record<string, unknown>))
+}
+
+// Pick the parser from the file name
+export function importColorSchemes(fileName: string, content: string): TerminalTheme[] {
+  if (fileName.toLowerCase().endsWith('.itermcolors')) {
+    return [parseItermColors(fileName.replace(/\.itermcolors$/i, ''), content)]
+  }
+  return parseWindowsTerminalSchemes(content)
+}
@@ -0,0 +1,56 @@
+import type { Workspace, StartupTask, TerminalInstance } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { getLaunchOptions, launchTerminal } from './terminal-launcher'
+
+// Tasks from workspace settings, otherwise from the project file
+export async function getWorkspaceTasks(workspace: Workspace): Promise<StartupTask[]> {
+  if (workspace.tasks) return workspace.tasks
+  const { config, error } = await window.electronAPI.workspace.loadProjectConfig(workspace.folderPath)
+  if (error) {
+    console.warn('Failed to load project config:', error)
+  }
+  return config?.tasks ?? []
+}
+
+function resolveTaskCwd(workspace: Workspace, cwd: string | undefined): string {
+  if (!cwd) return workspace.folderPath
+  if (/^([a-zA-Z]:)?[\\/]/.test(cwd)) return cwd
+  return `${workspace.folderPath.replace(/[\\/]+$/, '')}/${cwd}`
+}
+
+function findTaskTerminal(workspace: Workspace, task: StartupTask): TerminalInstance | undefined {
+  return workspaceStore.getState().terminals.find(t => t.workspaceId === workspace.id && t.task?.name === task.name)
+}
+
+// Restart the task's terminal, or create it when it was closed
+export async function runTask(workspace: Workspace, task: StartupTask): Promise<void> {
+  const cwd = resolveTaskCwd(workspace, task.cwd)
+  const existing = findTaskTerminal(workspace, task)
+  if (existing) {
+    // Pick up edits to the task definition
+    const terminal = { ...existing, task, cwd }
+    workspaceStore.updateTerminalTask(existing.id, task)
+    workspaceStore.updateTerminalCwd(existing.id, cwd)
+    if (!await window.electronAPI.pty.restart(existing.id, getLaunchOptions(terminal, workspace, cwd))) {
+      await launchTerminal(terminal, workspace)
+    }
+    return
+  }
+  const terminal = workspaceStore.addTerminal(workspace.id, 'terminal', { task, cwd })
+  await launchTerminal(terminal, workspace)
+}
+
+export async function runAllTasks(workspace: Workspace, tasks: StartupTask[]): Promise<void> {
+  for (const task of tasks) {
+    await runTask(workspace, task)
+  }
+}
+
+// Interrupt every task and cancel pending restarts, Run or Restart brings a task back
+export function stopAllTasks(workspace: Workspace): void {
+  for (const terminal of workspaceStore.getState().terminals) {
+    if (terminal.workspaceId === workspace.id && terminal.task) {
+      window.electronAPI.pty.stop(terminal.id)
+    }
+  }
+}
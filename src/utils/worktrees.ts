@@ -0,0 +1,56 @@
+import type { Workspace } from '../types'
+import { workspaceStore } from '../stores/workspace-store'
+import { launchTerminal } from './terminal-launcher'
+
+// Create a branch in its own worktree and open it as a child workspace, its agent starts with the view
+export async function createAgentWorktree(parent: Workspace, branch: string): Promise<{ error?: string }> {
+  const { path, baseBranch, error } = await window.electronAPI.git.createWorktree(parent.folderPath, branch.trim())
+  if (error || !path || !baseBranch) {
+    return { error: error ?? 'git worktree add failed' }
+  }
+  workspaceStore.addWorktreeWorkspace(parent.id, path, branch.trim(), baseBranch)
+  return {}
+}
+
+function getParent(workspace: Workspace): Workspace | undefined {
+  return workspaceStore.getState().workspaces.find(w => w.id === workspace.worktree?.parentId)
+}
+
+// Merge the worktree's commits into the branch it was created from, checked out in the parent
+export async function mergeAgentWorktree(workspace: Workspace): Promise<{ error?: string }> {
+  const parent = getParent(workspace)
+  if (!workspace.worktree || !parent) {
+    return { error: 'The workspace this worktree was created from is gone' }
+  }
+  return window.electronAPI.git.mergeWorktree(parent.folderPath, workspace.worktree.branch, workspace.worktree.baseBranch)
+}
+
+// Stop the workspace's terminals, delete the worktree and drop the workspace
+export async function removeAgentWorktree(workspace: Workspace, force: boolean): Promise<{ error?: string }> {
+  if (!workspace.worktree) {
+    return { error: 'Not a worktree workspace' }
+  }
+  // Git refuses these without force, find out before the terminals are stopped
+  if (!force) {
+    const status = await window.electronAPI.git.getStatus(workspace.folderPath)
+    if (status && status.files.length > 0) {
+      return { error: `The worktree has ${status.files.length} uncommitted changes, commit them or remove anyway` }
+    }
+  }
+  // A shell inside the folder keeps it locked on Windows
+  const terminals = workspaceStore.getWorkspaceTerminals(workspace.id)
+  await Promise.all(terminals.map(t => window.electronAPI.pty.kill(t.id)))
+  // Git finds the main repository from the worktree itself when the parent was removed
+  const gitPath = getParent(workspace)?.folderPath ?? workspace.folderPath
+  const result = await window.electronAPI.git.removeWorktree(gitPath, workspace.folderPath, workspace.worktree.branch, force)
+  if (result.error) {
+    // The workspace stays, so bring its agent and shells back
+    for (const terminal of terminals) {
+      await launchTerminal(terminal, workspace)
+    }
+    return result
+  }
+  workspaceStore.removeWorkspace(workspace.id)
+  workspaceStore.save()
+  return result
+}
@@ -19,6 +19,20 @@ export default defineConfig({
           }
         }
       },
+      {
+        // Started by the main process when persistent sessions are enabled
+        entry: 'electron/session-daemon.ts',
+        // Rebuilding it must not restart the app
+        onstart() {},
+        vite: {
+          build: {
+            outDir: 'dist-electron',
+            rollupOptions: {
+              external: ['node-pty']
+            }
+          }
+        }
+      },
       {
         entry: 'electron/preload.ts',
         onstart(options) {